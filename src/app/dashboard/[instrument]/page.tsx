@@ -0,0 +1,20 @@
+import { notFound } from "next/navigation";
+import { InstrumentDashboard } from "@/components/dashboard/instrument-dashboard";
+import { getInstrumentSpec, listInstruments } from "@/lib/instruments";
+
+// Static export: one dashboard page is generated per registry entry
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return listInstruments().map((instrument) => ({ instrument: instrument.id }));
+}
+
+export default async function InstrumentPage({ params }: { params: Promise<{ instrument: string }> }) {
+  const { instrument: instrumentType } = await params;
+  const instrument = getInstrumentSpec(instrumentType);
+  if (!instrument) {
+    notFound();
+  }
+
+  return <InstrumentDashboard instrument={instrument} />;
+}
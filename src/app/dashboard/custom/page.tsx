@@ -0,0 +1,41 @@
+"use client";
+
+import { Suspense } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { InstrumentDashboard } from "@/components/dashboard/instrument-dashboard";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useCustomInstruments } from "@/hooks/use-custom-instruments";
+
+// Custom instruments only exist in the browser, so they are resolved client-side from ?id=
+function CustomInstrumentDashboard() {
+  const searchParams = useSearchParams();
+  const { isLoaded, getCustomInstrument } = useCustomInstruments();
+  const instrument = getCustomInstrument(searchParams.get("id") ?? "");
+
+  if (!isLoaded) {
+    return <Skeleton className="h-[400px] w-full" />;
+  }
+
+  if (!instrument) {
+    return (
+      <div className="text-center space-y-4 py-16">
+        <p className="text-muted-foreground">This custom instrument was not found in this browser.</p>
+        <Link href="/dashboard/settings">
+          <Button variant="outline">Manage Custom Instruments</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return <InstrumentDashboard instrument={instrument} />;
+}
+
+export default function CustomInstrumentPage() {
+  return (
+    <Suspense fallback={<Skeleton className="h-[400px] w-full" />}>
+      <CustomInstrumentDashboard />
+    </Suspense>
+  );
+}
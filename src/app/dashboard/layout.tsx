@@ -4,7 +4,7 @@ import { DarkModeToggle } from '@/components/dashboard/common/dark-mode-toggle';
 import { WhatsAppButton } from '@/components/dashboard/common/whatsapp-button';
 import { Button } from '@/components/ui/button';
 import Link from 'next/link';
-import { LogOut } from 'lucide-react';
+import { LogOut, Settings } from 'lucide-react';
 
 export default function DashboardLayout({ children }: { children: ReactNode }) {
   return (
@@ -16,6 +16,11 @@ export default function DashboardLayout({ children }: { children: ReactNode }) {
           </Link>
           <nav className="flex items-center space-x-4">
              <DarkModeToggle />
+             <Link href="/dashboard/settings">
+                <Button variant="outline" size="icon" aria-label="Settings">
+                    <Settings className="h-4 w-4" />
+                </Button>
+            </Link>
              <Link href="/">
                 <Button variant="outline">
                     <LogOut className="mr-2 h-4 w-4" /> Logout
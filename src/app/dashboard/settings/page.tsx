@@ -0,0 +1,22 @@
+import { AccountCurrencySection } from "@/components/settings/account-currency-section";
+import { AccountMarginSection } from "@/components/settings/account-margin-section";
+import { CustomInstrumentsSection } from "@/components/settings/custom-instruments-section";
+import { BrokerProfilesSection } from "@/components/settings/broker-profiles-section";
+
+export default function SettingsPage() {
+  return (
+    <div className="space-y-8">
+      <h1 className="text-3xl font-bold text-primary font-headline tracking-tight">
+        Settings
+      </h1>
+
+      <AccountCurrencySection />
+
+      <AccountMarginSection />
+
+      <CustomInstrumentsSection />
+
+      <BrokerProfilesSection />
+    </div>
+  );
+}
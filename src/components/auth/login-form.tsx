@@ -5,7 +5,8 @@ import { useRouter } from "next/navigation";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import * as z from "zod";
-import { TrendingUp, Coins, KeyRound, User } from "lucide-react";
+import Link from "next/link";
+import { TrendingUp, Coins, DollarSign, BarChart3, Bitcoin, SlidersHorizontal, KeyRound, User } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -26,18 +27,43 @@ import {
 } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { useCustomInstruments } from "@/hooks/use-custom-instruments";
+import { getDashboardHref, listInstruments } from "@/lib/instruments";
+import type { InstrumentCategory } from "@/lib/types";
 
 const formSchema = z.object({
   username: z.string().min(1, { message: "Username is required." }),
   password: z.string().min(1, { message: "Password is required." }),
-  instrument: z.enum(["volatility75", "gold"], {
+  instrument: z.string({
     required_error: "Please select an instrument.",
-  }),
+  }).min(1, { message: "Please select an instrument." }),
 });
 
+const InstrumentIcon = ({ category }: { category: InstrumentCategory }) => {
+  if (category === "metal") {
+    return <Coins className="mr-2 h-5 w-5 text-yellow-500" />;
+  }
+  if (category === "forex") {
+    return <DollarSign className="mr-2 h-5 w-5 text-green-600" />;
+  }
+  if (category === "index") {
+    return <BarChart3 className="mr-2 h-5 w-5 text-primary" />;
+  }
+  if (category === "crypto") {
+    return <Bitcoin className="mr-2 h-5 w-5 text-orange-500" />;
+  }
+  if (category === "custom") {
+    return <SlidersHorizontal className="mr-2 h-5 w-5 text-muted-foreground" />;
+  }
+  return <TrendingUp className="mr-2 h-5 w-5 text-primary" />;
+};
+
 export function LoginForm() {
   const router = useRouter();
   const { toast } = useToast();
+  const { customInstruments } = useCustomInstruments();
+  const instruments = [...listInstruments(), ...customInstruments];
+  const findInstrument = (instrumentType: string) => instruments.find((instrument) => instrument.id === instrumentType);
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -48,12 +74,17 @@ export function LoginForm() {
   });
 
   function onSubmit(values: z.infer<typeof formSchema>) {
+    const instrument = findInstrument(values.instrument);
+    if (!instrument) {
+      form.setError("instrument", { message: "Please select an instrument." });
+      return;
+    }
     if (values.username === "admin" && values.password === "profits") {
       toast({
         title: "Login Successful",
-        description: `Redirecting to ${values.instrument === "volatility75" ? "Volatility 75" : "Gold"} dashboard.`,
+        description: `Redirecting to ${instrument.shortName} dashboard.`,
       });
-      router.push(`/dashboard/${values.instrument}`);
+      router.push(getDashboardHref(instrument));
     } else {
       toast({
         variant: "destructive",
@@ -118,26 +149,27 @@ export function LoginForm() {
                       <FormControl>
                         <SelectTrigger className="w-full">
                            <div className="flex items-center">
-                            {field.value === "volatility75" && <TrendingUp className="mr-2 h-5 w-5 text-primary" />}
-                            {field.value === "gold" && <Coins className="mr-2 h-5 w-5 text-yellow-500" />}
+                            {field.value && findInstrument(field.value) && (
+                              <InstrumentIcon category={findInstrument(field.value)!.category} />
+                            )}
                             <SelectValue placeholder="Select instrument" />
                           </div>
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="volatility75">
-                          <div className="flex items-center">
-                            <TrendingUp className="mr-2 h-5 w-5 text-primary" /> Volatility 75
-                          </div>
-                        </SelectItem>
-                        <SelectItem value="gold">
-                           <div className="flex items-center">
-                            <Coins className="mr-2 h-5 w-5 text-yellow-500" /> Gold
-                          </div>
-                        </SelectItem>
+                        {instruments.map((instrument) => (
+                          <SelectItem key={instrument.id} value={instrument.id}>
+                            <div className="flex items-center">
+                              <InstrumentIcon category={instrument.category} /> {instrument.shortName}
+                            </div>
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
+                    <Link href="/dashboard/settings" className="text-xs text-muted-foreground hover:text-primary underline-offset-4 hover:underline">
+                      Trade a symbol that isn&apos;t listed? Add a custom instrument.
+                    </Link>
                   </FormItem>
                 )}
               />
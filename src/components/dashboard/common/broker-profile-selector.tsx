@@ -0,0 +1,44 @@
+"use client";
+
+import Link from "next/link";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { BrokerProfile, InstrumentSpec } from "@/lib/types";
+
+const DEFAULT_PROFILE_VALUE = "default";
+
+interface BrokerProfileSelectorProps {
+  instrument: InstrumentSpec;
+  brokerProfiles: BrokerProfile[];
+  activeProfile: BrokerProfile | null;
+  onSelectProfile: (profileId: string | null) => void;
+}
+
+export function BrokerProfileSelector({ instrument, brokerProfiles, activeProfile, onSelectProfile }: BrokerProfileSelectorProps) {
+  const hasOverrides = (profile: BrokerProfile) => profile.overrides[instrument.id] !== undefined;
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+      <Label htmlFor="brokerProfileSelect" className="text-foreground/80 shrink-0">Broker Profile</Label>
+      <Select
+        value={activeProfile?.id ?? DEFAULT_PROFILE_VALUE}
+        onValueChange={(value) => onSelectProfile(value === DEFAULT_PROFILE_VALUE ? null : value)}
+      >
+        <SelectTrigger id="brokerProfileSelect" className="sm:w-[260px]">
+          <SelectValue placeholder="Select broker profile" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_PROFILE_VALUE}>Default specs</SelectItem>
+          {brokerProfiles.map((profile) => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {profile.name}{hasOverrides(profile) ? "" : " (no overrides)"}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Link href="/dashboard/settings" className="text-xs text-muted-foreground hover:text-primary hover:underline underline-offset-4">
+        Manage profiles
+      </Link>
+    </div>
+  );
+}
@@ -10,7 +10,11 @@ import { useToast } from "@/hooks/use-toast";
 import type { CompoundingFrequency, CompoundingResult } from "@/lib/types";
 import { calculateCompoundingLogic } from "@/lib/utils";
 
-export function CompoundingCalculatorSection() {
+interface CompoundingCalculatorSectionProps {
+  currency?: string;
+}
+
+export function CompoundingCalculatorSection({ currency = "USD" }: CompoundingCalculatorSectionProps) {
   const [initialBalance, setInitialBalance] = useState<string>("");
   const [frequency, setFrequency] = useState<CompoundingFrequency>("daily");
   const [period, setPeriod] = useState<string>("");
@@ -30,7 +34,7 @@ export function CompoundingCalculatorSection() {
       return;
     }
 
-    const calculated = calculateCompoundingLogic(balance, frequency, numPeriods);
+    const calculated = calculateCompoundingLogic(balance, frequency, numPeriods, currency);
     setResults(calculated);
   };
   
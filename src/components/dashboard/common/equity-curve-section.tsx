@@ -0,0 +1,112 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { BalanceHistoryEntry, EquityCurveRange } from "@/lib/types";
+import { EQUITY_CURVE_RANGES, filterBalanceHistory, getBalanceChangeReasonLabel } from "@/lib/balance-history";
+import { formatMoney } from "@/lib/currency";
+
+interface EquityCurveSectionProps {
+  balanceHistory: BalanceHistoryEntry[];
+  currency?: string;
+}
+
+const chartConfig = {
+  balance: {
+    label: "Balance",
+    color: "hsl(var(--chart-1))",
+  },
+} satisfies ChartConfig;
+
+const formatAxisDate = (time: number) =>
+  new Date(time).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+export function EquityCurveSection({ balanceHistory, currency = "USD" }: EquityCurveSectionProps) {
+  const [range, setRange] = useState<EquityCurveRange>("30d");
+
+  const chartData = useMemo(
+    () => filterBalanceHistory(balanceHistory, range).map(entry => ({
+      time: new Date(entry.timestamp).getTime(),
+      balance: entry.balance,
+      reason: getBalanceChangeReasonLabel(entry.reason),
+    })),
+    [balanceHistory, range]
+  );
+
+  return (
+    <Card className="shadow-lg mb-8">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-xl font-semibold text-primary">Equity Curve</CardTitle>
+        <div className="flex space-x-1">
+          {EQUITY_CURVE_RANGES.map(({ value, label }) => (
+            <Button
+              key={value}
+              size="sm"
+              variant={range === value ? "default" : "outline"}
+              onClick={() => setRange(value)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {chartData.length < 2 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Not enough balance changes in this range to draw a curve yet.
+          </p>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+            <LineChart data={chartData} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={formatAxisDate}
+                tickLine={false}
+                axisLine={false}
+                minTickGap={32}
+              />
+              <YAxis
+                dataKey="balance"
+                domain={["auto", "auto"]}
+                tickFormatter={(value: number) => formatMoney(value, currency)}
+                tickLine={false}
+                axisLine={false}
+                width={90}
+              />
+              <ChartTooltip
+                cursor={false}
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => {
+                      const point = payload[0]?.payload;
+                      return point ? `${new Date(point.time).toLocaleString()} · ${point.reason}` : null;
+                    }}
+                    formatter={(value) => (
+                      <span className="font-mono font-medium tabular-nums text-foreground">
+                        {formatMoney(Number(value), currency)}
+                      </span>
+                    )}
+                  />
+                }
+              />
+              <Line
+                dataKey="balance"
+                type="stepAfter"
+                stroke="var(--color-balance)"
+                strokeWidth={2}
+                dot={false}
+              />
+            </LineChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
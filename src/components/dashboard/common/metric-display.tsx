@@ -2,13 +2,14 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Copy } from "lucide-react";
+import { AlertTriangle, Copy } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import type { Metric } from "@/lib/types";
+import { formatMoney } from "@/lib/currency";
 
 interface MetricDisplayProps extends Metric {}
 
-export function MetricDisplay({ label, value, unit, copyable, id }: MetricDisplayProps) {
+export function MetricDisplay({ label, value, unit, currency, copyable, id, warning }: MetricDisplayProps) {
   const { toast } = useToast();
 
   const handleCopy = () => {
@@ -38,7 +39,7 @@ export function MetricDisplay({ label, value, unit, copyable, id }: MetricDispla
       <CardContent>
         <div className="flex items-center justify-between">
           <p id={id || label.toLowerCase().replace(/\s/g, "-")} className="text-2xl font-bold text-primary">
-            {value}{unit}
+            {currency ? formatMoney(Number(value), currency) : <>{value}{unit}</>}
           </p>
           {copyable && (
             <Button variant="ghost" size="icon" onClick={handleCopy} aria-label={`Copy ${label}`}>
@@ -46,6 +47,12 @@ export function MetricDisplay({ label, value, unit, copyable, id }: MetricDispla
             </Button>
           )}
         </div>
+        {warning && (
+          <p className="flex items-start mt-2 text-xs text-destructive">
+            <AlertTriangle className="h-3.5 w-3.5 mr-1 mt-0.5 shrink-0" />
+            {warning}
+          </p>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,45 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { Copy } from "lucide-react";
+
+interface OrderSplitListProps {
+  orders: string[];
+  maxLot: string;
+}
+
+// One copyable line per order for positions split at the broker's max volume
+export function OrderSplitList({ orders, maxLot }: OrderSplitListProps) {
+  const { toast } = useToast();
+
+  const handleCopy = (orderNumber: number, lots: string) => {
+    navigator.clipboard.writeText(lots).then(() => {
+      toast({
+        title: "Copied to clipboard",
+        description: `Order ${orderNumber}: ${lots} lots`,
+      });
+    }).catch(err => {
+      console.error('Error copying text: ', err);
+      toast({
+        variant: "destructive",
+        title: "Copy Failed",
+        description: "Could not copy text to clipboard.",
+      });
+    });
+  };
+
+  return (
+    <div className="mt-2 space-y-1">
+      <p className="text-xs text-muted-foreground">Split into {orders.length} orders (max {maxLot} lots each):</p>
+      {orders.map((lots, index) => (
+        <div key={index} className="flex items-center justify-between text-sm px-2 rounded bg-secondary/40">
+          <span>Order {index + 1}: <strong className="text-foreground">{lots}</strong> lots</span>
+          <Button variant="ghost" size="icon" onClick={() => handleCopy(index + 1, lots)} aria-label={`Copy order ${index + 1} lots`}>
+            <Copy className="h-4 w-4 text-muted-foreground hover:text-primary" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { PerformanceMetricId, PerformanceStats } from "@/lib/types";
+import { PERFORMANCE_METRICS, getPerformanceMetric } from "@/lib/performance";
+import { formatMoney } from "@/lib/currency";
+
+interface PerformanceAnalyticsSectionProps {
+  instrumentName: string;
+  instrumentStats: PerformanceStats;
+  overallStats: PerformanceStats;
+  selectedMetricIds: PerformanceMetricId[]; // Shown as extra cards in the MetricGrid
+  onUpdateSelectedMetrics: (metricIds: PerformanceMetricId[]) => void;
+  currency?: string;
+}
+
+const formatStat = (metricId: PerformanceMetricId, stats: PerformanceStats, currency: string) => {
+  if (stats.tradeCount === 0) return "-";
+  const { value, unit, currency: statCurrency } = getPerformanceMetric(metricId, stats, currency);
+  return statCurrency ? formatMoney(Number(value), statCurrency) : `${value}${unit ?? ""}`;
+};
+
+export function PerformanceAnalyticsSection({
+  instrumentName,
+  instrumentStats,
+  overallStats,
+  selectedMetricIds,
+  onUpdateSelectedMetrics,
+  currency = "USD",
+}: PerformanceAnalyticsSectionProps) {
+  const handleToggleMetric = (metricId: PerformanceMetricId, checked: boolean) => {
+    // Keep cards in the panel's order rather than the order they were picked
+    onUpdateSelectedMetrics(PERFORMANCE_METRICS
+      .map(({ id }) => id)
+      .filter(id => (id === metricId ? checked : selectedMetricIds.includes(id))));
+  };
+
+  return (
+    <Card className="shadow-lg mb-8">
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold text-primary">Performance Analytics</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {overallStats.tradeCount === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Log closed trades in the journal to see performance statistics.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Metric</TableHead>
+                <TableHead className="text-right">{instrumentName} ({instrumentStats.tradeCount})</TableHead>
+                <TableHead className="text-right">All Instruments ({overallStats.tradeCount})</TableHead>
+                <TableHead className="text-center">Show as Card</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {PERFORMANCE_METRICS.map(({ id, label }) => (
+                <TableRow key={id}>
+                  <TableCell className="font-medium">{label}</TableCell>
+                  <TableCell className="text-right">{formatStat(id, instrumentStats, currency)}</TableCell>
+                  <TableCell className="text-right">{formatStat(id, overallStats, currency)}</TableCell>
+                  <TableCell className="text-center">
+                    <Checkbox
+                      checked={selectedMetricIds.includes(id)}
+                      onCheckedChange={(checked) => handleToggleMetric(id, checked === true)}
+                      aria-label={`Show ${label} as a card`}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { useToast } from "@/hooks/use-toast";
+import type { BalanceHistoryEntry, GrowthPlanStart } from "@/lib/types";
+import { MIN_PLAN_START_DATE, buildGrowthPlanSeries, calculateGrowthPlanProgress, parsePlanStartDate } from "@/lib/growth-plan";
+import { formatMoney } from "@/lib/currency";
+
+interface PlanVsActualSectionProps {
+  planStart: GrowthPlanStart;
+  balanceHistory: BalanceHistoryEntry[];
+  currentBalance: number;
+  onUpdatePlanStart: (newStart: GrowthPlanStart) => void;
+  currency?: string;
+}
+
+const chartConfig = {
+  planned: {
+    label: "Plan (2%/trading day)",
+    color: "hsl(var(--chart-2))",
+  },
+  actual: {
+    label: "Actual",
+    color: "hsl(var(--chart-1))",
+  },
+} satisfies ChartConfig;
+
+const formatAxisDate = (time: number) =>
+  new Date(time).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+const formatScheduleDays = (daysAhead: number | null): string => {
+  if (daysAhead === null) return "-";
+  const days = Math.abs(daysAhead).toFixed(1);
+  if (Number(days) === 0) return "On schedule";
+  return daysAhead > 0 ? `${days} trading days ahead` : `${days} trading days behind`;
+};
+
+export function PlanVsActualSection({ planStart, balanceHistory, currentBalance, onUpdatePlanStart, currency = "USD" }: PlanVsActualSectionProps) {
+  const [startBalanceInput, setStartBalanceInput] = useState(planStart.startBalance.toString());
+  const [startDateInput, setStartDateInput] = useState(planStart.startDate);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setStartBalanceInput(planStart.startBalance.toString());
+    setStartDateInput(planStart.startDate);
+  }, [planStart.startBalance, planStart.startDate]);
+
+  const progress = useMemo(() => calculateGrowthPlanProgress(planStart, currentBalance), [planStart, currentBalance]);
+  const chartData = useMemo(() => buildGrowthPlanSeries(planStart, balanceHistory), [planStart, balanceHistory]);
+
+  const handleSetPlanStart = () => {
+    const startBalance = parseFloat(startBalanceInput);
+    if (isNaN(startBalance) || startBalance <= 0) {
+      toast({ variant: "destructive", title: "Invalid Input", description: "Please enter a valid starting balance." });
+      return;
+    }
+    const startDate = parsePlanStartDate(startDateInput);
+    if (!startDateInput || isNaN(startDate.getTime()) || startDate < parsePlanStartDate(MIN_PLAN_START_DATE) || startDate > new Date()) {
+      toast({
+        variant: "destructive",
+        title: "Invalid Input",
+        description: `Please enter a start date between ${parsePlanStartDate(MIN_PLAN_START_DATE).toLocaleDateString()} and today.`,
+      });
+      return;
+    }
+    onUpdatePlanStart({ startBalance, startDate: startDateInput });
+    toast({
+      title: "Plan Start Updated",
+      description: `Plan starts at ${formatMoney(startBalance, currency)} on ${startDate.toLocaleDateString()}`,
+    });
+  };
+
+  return (
+    <Card className="shadow-lg mb-8">
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold text-primary">Plan vs Actual</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div>
+            <Label htmlFor="planStartBalance" className="text-foreground/80">Starting Balance</Label>
+            <Input id="planStartBalance" type="number" value={startBalanceInput} onChange={(e) => setStartBalanceInput(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="planStartDate" className="text-foreground/80">Start Date</Label>
+            <Input id="planStartDate" type="date" min={MIN_PLAN_START_DATE} value={startDateInput} onChange={(e) => setStartDateInput(e.target.value)} />
+          </div>
+          <div className="flex items-end">
+            <Button onClick={handleSetPlanStart} className="w-full bg-accent hover:bg-accent/90 text-accent-foreground">
+              Set Plan Start
+            </Button>
+          </div>
+        </div>
+
+        <div className="p-4 bg-primary/10 rounded-lg mb-6 shadow">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+            <p><strong className="text-foreground/80">Trading Day:</strong> {progress.elapsedDays}</p>
+            <p><strong className="text-foreground/80">Planned Balance:</strong> {formatMoney(progress.plannedBalance, currency)}</p>
+            <p>
+              <strong className="text-foreground/80">Gap:</strong>{" "}
+              <span className={progress.gap < 0 ? "text-destructive" : "text-green-600"}>{formatMoney(progress.gap, currency)}</span>
+            </p>
+            <p>
+              <strong className="text-foreground/80">Schedule:</strong>{" "}
+              <span className={progress.daysAhead !== null && progress.daysAhead < 0 ? "text-destructive" : "text-green-600"}>
+                {formatScheduleDays(progress.daysAhead)}
+              </span>
+            </p>
+          </div>
+        </div>
+
+        {chartData.length < 2 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            The chart fills in from the first trading day after the plan starts.
+          </p>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+            <LineChart data={chartData} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={formatAxisDate}
+                tickLine={false}
+                axisLine={false}
+                minTickGap={32}
+              />
+              <YAxis
+                domain={["auto", "auto"]}
+                tickFormatter={(value: number) => formatMoney(value, currency)}
+                tickLine={false}
+                axisLine={false}
+                width={90}
+              />
+              <ChartTooltip
+                cursor={false}
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => {
+                      const point = payload[0]?.payload;
+                      return point ? new Date(point.time).toLocaleDateString() : null;
+                    }}
+                    formatter={(value, name) => (
+                      <div className="flex flex-1 justify-between gap-4">
+                        <span className="text-muted-foreground">{chartConfig[name as keyof typeof chartConfig]?.label ?? name}</span>
+                        <span className="font-mono font-medium tabular-nums text-foreground">{formatMoney(Number(value), currency)}</span>
+                      </div>
+                    )}
+                  />
+                }
+              />
+              <Line dataKey="planned" type="monotone" stroke="var(--color-planned)" strokeWidth={2} strokeDasharray="4 4" dot={false} />
+              <Line dataKey="actual" type="stepAfter" stroke="var(--color-actual)" strokeWidth={2} dot={false} connectNulls />
+            </LineChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type { InstrumentSpec, LevelInputMode, RiskSettings, TradeDirection } from "@/lib/types";
+import { calculatePositionRiskLogic, parseLevelPips } from "@/lib/utils";
+import { formatMoney } from "@/lib/currency";
+import { getDistanceUnit } from "@/lib/instruments";
+import { AlertTriangle, ArrowDownLeft, ArrowUpRight } from "lucide-react";
+
+interface PositionRiskCalculatorSectionProps {
+  currentBalance: number;
+  instrument: InstrumentSpec; // Priced in the account currency
+  riskSettings: RiskSettings;
+  currency?: string;
+}
+
+interface PositionInputs {
+  lots: number;
+  slPips: number;
+  tpPips: number;
+}
+
+export function PositionRiskCalculatorSection({ currentBalance, instrument, riskSettings, currency = "USD" }: PositionRiskCalculatorSectionProps) {
+  const [lotsInput, setLotsInput] = useState<string>("");
+  const [entryPrice, setEntryPrice] = useState<string>("");
+  const [tradeDirection, setTradeDirection] = useState<TradeDirection>("rise");
+  const [levelMode, setLevelMode] = useState<LevelInputMode>("distance");
+  const [slInput, setSlInput] = useState<string>("");
+  const [tpInput, setTpInput] = useState<string>("");
+  const [positionInputs, setPositionInputs] = useState<PositionInputs | null>(null);
+  const distanceUnit = getDistanceUnit(instrument);
+  const levelUnitLabel = levelMode === "price" ? "price" : distanceUnit;
+  const { toast } = useToast();
+
+  const results = useMemo(() => {
+    if (!positionInputs) {
+      return null;
+    }
+    return calculatePositionRiskLogic({
+      ...positionInputs,
+      currentBalance,
+      instrument,
+      riskLimitPercent: riskSettings.riskPercent,
+    });
+  }, [positionInputs, currentBalance, instrument, riskSettings.riskPercent]);
+
+  const handleCalculate = () => {
+    const lots = parseFloat(lotsInput);
+    if (isNaN(lots) || lots <= 0) {
+      toast({ variant: "destructive", title: "Invalid Input", description: "Please enter a valid lot size." });
+      return;
+    }
+
+    const entry = parseFloat(entryPrice);
+    if (levelMode === "price" && (isNaN(entry) || entry <= 0)) {
+      toast({ variant: "destructive", title: "Invalid Input", description: "Please enter a valid entry price." });
+      return;
+    }
+
+    const sl = parseLevelPips(slInput, levelMode, "sl", entry, tradeDirection, instrument);
+    if ("error" in sl) {
+      toast({ variant: "destructive", title: "Invalid Input", description: sl.error });
+      return;
+    }
+    const tp = parseLevelPips(tpInput, levelMode, "tp", entry, tradeDirection, instrument);
+    if ("error" in tp) {
+      toast({ variant: "destructive", title: "Invalid Input", description: tp.error });
+      return;
+    }
+
+    setPositionInputs({ lots, slPips: sl.pips, tpPips: tp.pips });
+  };
+
+  return (
+    <Card className="shadow-lg mb-8">
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold text-primary">Position Risk Check</CardTitle>
+        <CardDescription>Check the risk and reward of a position you have already sized.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-6">
+          <div>
+            <Label htmlFor="positionLots" className="text-foreground/80">Lot Size</Label>
+            <Input id="positionLots" type="number" step="any" placeholder={`e.g., ${instrument.minLot}`} value={lotsInput} onChange={(e) => setLotsInput(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="positionLevelMode" className="text-foreground/80">SL / TP Input</Label>
+            <Select value={levelMode} onValueChange={(value: LevelInputMode) => setLevelMode(value)}>
+              <SelectTrigger id="positionLevelMode">
+                <SelectValue placeholder="Select input" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="distance">Distance ({distanceUnit})</SelectItem>
+                <SelectItem value="price">Price levels</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {levelMode === "price" && (
+            <>
+              <div>
+                <Label htmlFor="positionEntryPrice" className="text-foreground/80">Entry Price</Label>
+                <Input id="positionEntryPrice" type="number" placeholder="Enter entry price" value={entryPrice} onChange={(e) => setEntryPrice(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="positionDirection" className="text-foreground/80">Trade Direction</Label>
+                <Select value={tradeDirection} onValueChange={(value: TradeDirection) => setTradeDirection(value)}>
+                  <SelectTrigger id="positionDirection">
+                    <SelectValue placeholder="Select direction" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="rise">
+                      <div className="flex items-center"><ArrowUpRight className="h-4 w-4 mr-2 text-green-500" /> Rise (Buy)</div>
+                    </SelectItem>
+                    <SelectItem value="fall">
+                      <div className="flex items-center"><ArrowDownLeft className="h-4 w-4 mr-2 text-red-500" /> Fall (Sell)</div>
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+          <div>
+            <Label htmlFor="positionSL" className="text-foreground/80">Stop Loss ({levelUnitLabel})</Label>
+            <Input id="positionSL" type="number" value={slInput} onChange={(e) => setSlInput(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="positionTP" className="text-foreground/80">Take Profit ({levelUnitLabel})</Label>
+            <Input id="positionTP" type="number" value={tpInput} onChange={(e) => setTpInput(e.target.value)} />
+          </div>
+        </div>
+        <Button onClick={handleCalculate} className="w-full bg-accent hover:bg-accent/90 text-accent-foreground mb-6 py-3 text-base">
+          Check Position
+        </Button>
+
+        {results && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-center">
+              <div className="p-4 bg-secondary/50 rounded-lg shadow">
+                <h4 className="text-sm font-medium text-muted-foreground mb-1">Risk</h4>
+                <p className="text-lg font-bold text-primary">{formatMoney(Number(results.riskAmount), currency)} ({results.riskPercent}%)</p>
+              </div>
+              <div className="p-4 bg-secondary/50 rounded-lg shadow">
+                <h4 className="text-sm font-medium text-muted-foreground mb-1">Reward</h4>
+                <p className="text-lg font-bold text-primary">{formatMoney(Number(results.rewardAmount), currency)} ({results.rewardPercent}%)</p>
+              </div>
+              <div className="p-4 bg-secondary/50 rounded-lg shadow">
+                <h4 className="text-sm font-medium text-muted-foreground mb-1">Reward : Risk</h4>
+                <p className="text-lg font-bold text-primary">1:{results.rewardRatio}</p>
+              </div>
+            </div>
+            {results.exceedsRiskLimit && (
+              <p className="flex items-center text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4 mr-2 shrink-0" />
+                This position risks {results.riskPercent}% of the balance, above your {riskSettings.riskPercent.toFixed(1)}% limit.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,31 +7,34 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { formatMoney } from "@/lib/currency";
 
 interface ProgressSectionProps {
   currentBalance: number;
-  onUpdateBalance: (newBalance: number) => void;
+  onCorrectBalance: (newBalance: number) => void; // Deposits, withdrawals and fixes; trade results are logged separately
+  currency?: string;
   targetBalance?: number;
   progressLabel?: string;
 }
 
 export function ProgressSection({
   currentBalance,
-  onUpdateBalance,
+  onCorrectBalance,
+  currency = "USD",
   targetBalance = 1000000,
-  progressLabel = "Progress to $1,000,000",
+  progressLabel,
 }: ProgressSectionProps) {
   const [dailyInput, setDailyInput] = useState("");
   const { toast } = useToast();
 
-  const handleUpdateBalance = () => {
+  const handleCorrectBalance = () => {
     const newBalance = parseFloat(dailyInput);
     if (!isNaN(newBalance) && newBalance >= 0) {
-      onUpdateBalance(newBalance);
+      onCorrectBalance(newBalance);
       setDailyInput("");
       toast({
-        title: "Balance Updated",
-        description: `Current balance set to $${newBalance.toFixed(2)}`,
+        title: "Balance Corrected",
+        description: `Current balance set to ${formatMoney(newBalance, currency)}`,
       });
     } else {
       toast({
@@ -47,15 +50,15 @@ export function ProgressSection({
   return (
     <Card className="shadow-lg mb-8">
       <CardHeader>
-        <CardTitle className="text-xl font-semibold text-primary">{progressLabel}</CardTitle>
+        <CardTitle className="text-xl font-semibold text-primary">{progressLabel ?? `Progress to ${formatMoney(targetBalance, currency)}`}</CardTitle>
       </CardHeader>
       <CardContent>
         <Progress value={progressValue} className="w-full h-4 mb-4" />
         <p className="text-sm text-muted-foreground text-center mb-4">
-          Current Balance: ${currentBalance.toFixed(2)} / ${targetBalance.toLocaleString()} ({progressValue.toFixed(2)}%)
+          Current Balance: {formatMoney(currentBalance, currency)} / {formatMoney(targetBalance, currency)} ({progressValue.toFixed(2)}%)
         </p>
         <div className="space-y-2">
-          <Label htmlFor="dailyInput" className="text-foreground/80">Enter current account balance</Label>
+          <Label htmlFor="dailyInput" className="text-foreground/80">Correct account balance (deposits, withdrawals)</Label>
           <div className="flex space-x-2">
             <Input
               id="dailyInput"
@@ -65,8 +68,8 @@ export function ProgressSection({
               onChange={(e) => setDailyInput(e.target.value)}
               className="flex-grow"
             />
-            <Button onClick={handleUpdateBalance} className="bg-accent hover:bg-accent/90 text-accent-foreground">
-              Update Progress
+            <Button onClick={handleCorrectBalance} className="bg-accent hover:bg-accent/90 text-accent-foreground">
+              Correct Balance
             </Button>
           </div>
         </div>
@@ -0,0 +1,40 @@
+"use client";
+
+import { AlertTriangle, Info } from "lucide-react";
+import { cn, getLotClampWarning } from "@/lib/utils";
+import { formatMoney } from "@/lib/currency";
+import { getDistanceUnitLabel } from "@/lib/instruments";
+import type { InstrumentSpec, LotClamp, RiskSettings } from "@/lib/types";
+
+interface RiskNoteProps {
+  instrument: InstrumentSpec; // Priced in the account currency
+  riskSettings: RiskSettings;
+  minimumCapital: number;
+  lotClamp?: LotClamp;
+  effectiveRiskPercent: string;
+  currency?: string;
+}
+
+// Minimum capital for the configured risk, with a warning when the lot limits override it
+export function RiskNote({ instrument, riskSettings, minimumCapital, lotClamp, effectiveRiskPercent, currency = "USD" }: RiskNoteProps) {
+  const warning = getLotClampWarning(lotClamp, effectiveRiskPercent, riskSettings, instrument);
+  const Icon = warning ? AlertTriangle : Info;
+
+  return (
+    <p
+      className={cn(
+        "flex items-start text-xs italic mt-2 mb-6 p-3 border rounded-md",
+        warning
+          ? "text-destructive bg-destructive/5 border-destructive/30"
+          : "text-muted-foreground bg-primary/5 dark:bg-primary/10 border-primary/20 dark:border-primary/30"
+      )}
+    >
+      <Icon className={cn("h-4 w-4 mr-2 mt-0.5 shrink-0", !warning && "text-primary/70")} />
+      <span>
+        Risk Note: Risking {riskSettings.riskPercent.toFixed(1)}% on a {instrument.strategySLPips} {getDistanceUnitLabel(instrument)} SL with the minimum
+        lot of {instrument.minLot.toFixed(instrument.lotPrecision)} needs a balance of at least {formatMoney(Math.ceil(minimumCapital), currency)}.
+        {warning && <> {warning}</>}
+      </span>
+    </p>
+  );
+}
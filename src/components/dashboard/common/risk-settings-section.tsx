@@ -0,0 +1,70 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { LotRoundingMode, RiskSettings } from "@/lib/types";
+import { RISK_PERCENT_RANGE } from "@/lib/utils";
+
+interface RiskSettingsSectionProps {
+  riskSettings: RiskSettings;
+  onUpdateRiskSettings: (newSettings: RiskSettings) => void;
+}
+
+export function RiskSettingsSection({ riskSettings, onUpdateRiskSettings }: RiskSettingsSectionProps) {
+  return (
+    <Card className="shadow-lg mb-8">
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold text-primary">Risk Settings</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="space-y-3">
+            <div className="flex justify-between">
+              <Label htmlFor="riskPercentSlider" className="text-foreground/80">Risk per Trade</Label>
+              <span className="text-sm font-semibold text-primary">{riskSettings.riskPercent.toFixed(1)}%</span>
+            </div>
+            <Slider
+              id="riskPercentSlider"
+              min={RISK_PERCENT_RANGE.min}
+              max={RISK_PERCENT_RANGE.max}
+              step={RISK_PERCENT_RANGE.step}
+              value={[riskSettings.riskPercent]}
+              onValueChange={([value]) => onUpdateRiskSettings({ ...riskSettings, riskPercent: value })}
+            />
+          </div>
+          <div className="space-y-3">
+            <div className="flex justify-between">
+              <Label htmlFor="rewardRatioSlider" className="text-foreground/80">Reward : Risk</Label>
+              <span className="text-sm font-semibold text-primary">1:{riskSettings.rewardRatio.toFixed(1)}</span>
+            </div>
+            <Slider
+              id="rewardRatioSlider"
+              min={0.5}
+              max={5}
+              step={0.1}
+              value={[riskSettings.rewardRatio]}
+              onValueChange={([value]) => onUpdateRiskSettings({ ...riskSettings, rewardRatio: value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="lotRoundingSelect" className="text-foreground/80">Lot Rounding</Label>
+            <Select
+              value={riskSettings.roundingMode}
+              onValueChange={(value: LotRoundingMode) => onUpdateRiskSettings({ ...riskSettings, roundingMode: value })}
+            >
+              <SelectTrigger id="lotRoundingSelect">
+                <SelectValue placeholder="Select rounding" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="down">Round down (never exceed risk)</SelectItem>
+                <SelectItem value="nearest">Nearest volume step</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,232 @@
+"use client";
+
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+import { Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { getDistanceUnit } from "@/lib/instruments";
+import { positiveInteger, positiveNumber } from "@/lib/form-schemas";
+import { RISK_PERCENT_RANGE } from "@/lib/utils";
+import type { InstrumentSpec, StrategyProfile } from "@/lib/types";
+
+const DEFAULT_STRATEGY_VALUE = "default";
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, { message: "Name is required." }).max(40, { message: "Name must be 40 characters or fewer." }),
+  slPips: positiveNumber("SL"),
+  tpPips: positiveNumber("TP"),
+  riskPercent: positiveNumber("Risk %").refine(
+    (value) => Number(value) >= RISK_PERCENT_RANGE.min && Number(value) <= RISK_PERCENT_RANGE.max,
+    { message: `Risk % must be between ${RISK_PERCENT_RANGE.min} and ${RISK_PERCENT_RANGE.max}.` }
+  ),
+  maxTradesPerDay: positiveInteger("Max trades per day"),
+});
+
+type StrategyProfileFormValues = z.infer<typeof formSchema>;
+
+const getStrategyProfileId = (name: string) =>
+  `strategy-${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "")}`;
+
+const toFormValues = (profile: StrategyProfile): StrategyProfileFormValues => ({
+  name: profile.name,
+  slPips: profile.slPips.toString(),
+  tpPips: profile.tpPips.toString(),
+  riskPercent: profile.riskPercent.toString(),
+  maxTradesPerDay: profile.maxTradesPerDay.toString(),
+});
+
+interface StrategyProfileSectionProps {
+  // Spec before the strategy profile is applied, so "Default" shows the instrument's own SL/TP
+  instrument: InstrumentSpec;
+  strategyProfiles: StrategyProfile[];
+  activeStrategy: StrategyProfile | null;
+  onSelectStrategy: (strategy: StrategyProfile | null) => void;
+  onSaveStrategy: (strategy: StrategyProfile) => void;
+  onDeleteStrategy: (strategyId: string) => void;
+}
+
+export function StrategyProfileSection({
+  instrument,
+  strategyProfiles,
+  activeStrategy,
+  onSelectStrategy,
+  onSaveStrategy,
+  onDeleteStrategy,
+}: StrategyProfileSectionProps) {
+  const { toast } = useToast();
+  const distanceUnit = getDistanceUnit(instrument);
+
+  const emptyFormValues: StrategyProfileFormValues = {
+    name: "",
+    slPips: instrument.strategySLPips.toString(),
+    tpPips: instrument.strategyTPPips.toString(),
+    riskPercent: "1",
+    maxTradesPerDay: "1",
+  };
+
+  const form = useForm<StrategyProfileFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: emptyFormValues,
+  });
+
+  React.useEffect(() => {
+    form.reset(activeStrategy ? toFormValues(activeStrategy) : emptyFormValues);
+  }, [activeStrategy, instrument.id]);
+
+  function onSubmit(values: StrategyProfileFormValues) {
+    const profile: StrategyProfile = {
+      id: getStrategyProfileId(values.name),
+      name: values.name,
+      slPips: Number(values.slPips),
+      tpPips: Number(values.tpPips),
+      riskPercent: Number(values.riskPercent),
+      maxTradesPerDay: Number(values.maxTradesPerDay),
+    };
+    // Ids come from the name, so "Scalp!" and "scalp" would overwrite each other; only the active profile may be replaced
+    if (strategyProfiles.some(existing => existing.id === profile.id && existing.id !== activeStrategy?.id)) {
+      form.setError("name", { message: "A strategy with this name already exists." });
+      return;
+    }
+    onSaveStrategy(profile);
+    onSelectStrategy(profile);
+    toast({
+      title: "Strategy Saved",
+      description: `${profile.name} is now the active strategy for ${instrument.shortName}.`,
+    });
+  }
+
+  const handleSelect = (value: string) => {
+    onSelectStrategy(value === DEFAULT_STRATEGY_VALUE ? null : strategyProfiles.find(profile => profile.id === value) ?? null);
+  };
+
+  const handleDelete = () => {
+    if (!activeStrategy) {
+      return;
+    }
+    onDeleteStrategy(activeStrategy.id);
+    toast({
+      title: "Strategy Deleted",
+      description: `${activeStrategy.name} was removed.`,
+    });
+  };
+
+  return (
+    <Card className="shadow-lg mb-8">
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold text-primary">Strategy Profile</CardTitle>
+        <CardDescription>
+          The active profile sets the default SL/TP, risk per trade and daily trade limit for {instrument.shortName}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+          <Label htmlFor="strategyProfileSelect" className="text-foreground/80 shrink-0">Active Strategy</Label>
+          <Select value={activeStrategy?.id ?? DEFAULT_STRATEGY_VALUE} onValueChange={handleSelect}>
+            <SelectTrigger id="strategyProfileSelect" className="sm:w-[260px]">
+              <SelectValue placeholder="Select strategy" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_STRATEGY_VALUE}>
+                Default ({instrument.strategySLPips}/{instrument.strategyTPPips} {distanceUnit})
+              </SelectItem>
+              {strategyProfiles.map((profile) => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.name} ({profile.slPips}/{profile.tpPips} {distanceUnit})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {activeStrategy && (
+            <Button variant="ghost" size="icon" onClick={handleDelete} aria-label={`Delete ${activeStrategy.name}`}>
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          )}
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-foreground/80">Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Scalp" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="slPips"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-foreground/80">SL ({distanceUnit})</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="tpPips"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-foreground/80">TP ({distanceUnit})</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="riskPercent"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-foreground/80">Risk per Trade (%)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="maxTradesPerDay"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-foreground/80">Max Trades per Day</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="1" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <Button type="submit" className="w-full bg-accent hover:bg-accent/90 text-accent-foreground">
+              Save Strategy
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatMoney } from "@/lib/currency";
+import type { DistanceUnit, TakeProfitLadderResult, TakeProfitLevel, TargetMode } from "@/lib/types";
+import { Plus, Trash2 } from "lucide-react";
+
+export const MAX_TAKE_PROFIT_LEVELS = 3;
+
+// Ladder rows as typed; parsed into TakeProfitLevel on Calculate
+export interface TakeProfitLevelInput {
+  distance: string;
+  mode: TargetMode;
+  closePercent: string;
+}
+
+export const parseTakeProfitLevels = (inputs: TakeProfitLevelInput[]): { levels: TakeProfitLevel[] } | { error: string } => {
+  const levels: TakeProfitLevel[] = [];
+  for (const [index, input] of inputs.entries()) {
+    const distance = parseFloat(input.distance);
+    const closePercent = parseFloat(input.closePercent);
+    if (isNaN(distance) || distance <= 0) {
+      return { error: `Please enter a valid distance for TP${index + 1} (must be > 0).` };
+    }
+    if (isNaN(closePercent) || closePercent <= 0 || closePercent > 100) {
+      return { error: `Please enter a close % between 0 and 100 for TP${index + 1}.` };
+    }
+    levels.push({ distance, mode: input.mode, closePercent });
+  }
+  const totalClosePercent = levels.reduce((sum, level) => sum + level.closePercent, 0);
+  if (totalClosePercent > 100) {
+    return { error: `The ladder closes ${totalClosePercent}% of the position; the total must be 100% or less.` };
+  }
+  return { levels };
+};
+
+interface TakeProfitLadderInputsProps {
+  levels: TakeProfitLevelInput[];
+  distanceUnit: DistanceUnit;
+  idSuffix: string;
+  onChange: (levels: TakeProfitLevelInput[]) => void;
+}
+
+export function TakeProfitLadderInputs({ levels, distanceUnit, idSuffix, onChange }: TakeProfitLadderInputsProps) {
+  const updateLevel = (index: number, changes: Partial<TakeProfitLevelInput>) =>
+    onChange(levels.map((level, i) => (i === index ? { ...level, ...changes } : level)));
+
+  const addLevel = () =>
+    onChange([...levels, { distance: (levels.length + 1).toString(), mode: "r", closePercent: "" }]);
+
+  return (
+    <div className="space-y-3 mb-6">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-foreground/80">Take-Profit Ladder</h4>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addLevel}
+          disabled={levels.length >= MAX_TAKE_PROFIT_LEVELS}
+        >
+          <Plus className="h-4 w-4 mr-1" /> Add TP
+        </Button>
+      </div>
+      {levels.length === 0 && (
+        <p className="text-sm text-muted-foreground">No partial targets; the whole position closes at the custom TP.</p>
+      )}
+      {levels.map((level, index) => (
+        <div key={index} className="grid grid-cols-[auto_1fr_1fr_1fr_auto] items-end gap-2">
+          <span className="pb-2 text-sm font-medium text-primary">TP{index + 1}</span>
+          <div>
+            <Label htmlFor={`tpLevelDistance-${index}-${idSuffix}`} className="text-xs text-foreground/80">Distance</Label>
+            <Input
+              id={`tpLevelDistance-${index}-${idSuffix}`}
+              type="number"
+              step="any"
+              value={level.distance}
+              onChange={(e) => updateLevel(index, { distance: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor={`tpLevelMode-${index}-${idSuffix}`} className="text-xs text-foreground/80">Unit</Label>
+            <Select value={level.mode} onValueChange={(value: TargetMode) => updateLevel(index, { mode: value })}>
+              <SelectTrigger id={`tpLevelMode-${index}-${idSuffix}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="r">R-multiple</SelectItem>
+                <SelectItem value="distance">{distanceUnit}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor={`tpLevelClose-${index}-${idSuffix}`} className="text-xs text-foreground/80">Close (%)</Label>
+            <Input
+              id={`tpLevelClose-${index}-${idSuffix}`}
+              type="number"
+              step="any"
+              placeholder="e.g., 50"
+              value={level.closePercent}
+              onChange={(e) => updateLevel(index, { closePercent: e.target.value })}
+            />
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(levels.filter((_, i) => i !== index))}
+            aria-label={`Remove TP${index + 1}`}
+          >
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface TakeProfitLadderResultsProps {
+  ladder: TakeProfitLadderResult;
+  distanceUnit: DistanceUnit;
+  currency: string;
+}
+
+export function TakeProfitLadderResults({ ladder, distanceUnit, currency }: TakeProfitLadderResultsProps) {
+  return (
+    <div className="mt-6">
+      <h4 className="font-semibold text-foreground/80 mb-2">Take-Profit Ladder</h4>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Target</TableHead>
+            <TableHead>Price</TableHead>
+            <TableHead>Distance ({distanceUnit})</TableHead>
+            <TableHead>Lots Closed</TableHead>
+            <TableHead className="text-right">Profit</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {ladder.levels.map((level, index) => (
+            <TableRow key={index}>
+              <TableCell className="font-medium">TP{index + 1}</TableCell>
+              <TableCell>{level.price}</TableCell>
+              <TableCell>{level.pips}</TableCell>
+              <TableCell>{level.lotsClosed}</TableCell>
+              <TableCell className="text-right">{formatMoney(Number(level.profit), currency)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <div className="grid grid-cols-2 gap-2 mt-3 text-sm">
+        <p><strong className="text-foreground/80">Blended Expected Profit:</strong> {formatMoney(Number(ladder.blendedProfit), currency)}</p>
+        <p><strong className="text-foreground/80">Remaining Runner:</strong> {ladder.runnerLots} lots</p>
+      </div>
+    </div>
+  );
+}
@@ -1,23 +1,36 @@
 
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import type { TradeDirection, TradeCalculationResult, InstrumentType } from "@/lib/types";
-import { calculateTradePointsLogic } from "@/lib/utils";
-import { ArrowDownLeft, ArrowUpRight, Copy } from "lucide-react";
+import type { TradeDirection, OrderType, TradeCalculationParams, InstrumentSpec, RiskSettings, AccountSettings, LevelInputMode, TradingCosts } from "@/lib/types";
+import { calculateTradePointsLogic, getLotClampWarning, getOverRiskWarning, parseLevelPips } from "@/lib/utils";
+import { formatMoney } from "@/lib/currency";
+import { ORDER_TYPES, getOrderDirection, getPendingEntrySide, isEntryOnCorrectSideOfMarket, isPendingOrder } from "@/lib/orders";
+import { applyAccountCurrency, applyQuoteConversion, applyTradingCosts, getDistanceUnit, getQuoteConversionPair, needsQuoteConversion } from "@/lib/instruments";
+import { OrderSplitList } from "./order-split-list";
+import { TakeProfitLadderInputs, TakeProfitLadderResults, parseTakeProfitLevels, type TakeProfitLevelInput } from "./take-profit-ladder";
+import { DEFAULT_TRAILING_STOP_INPUT, TrailingStopInputs, TrailingStopResults, parseTrailingStopInput, type TrailingStopInput } from "./trailing-stop-planner";
+import { AlertTriangle, ArrowDownLeft, ArrowUpRight, Copy } from "lucide-react";
 
 interface TradeCalculatorSectionProps {
   currentBalance: number;
-  instrumentType: InstrumentType;
-  instrumentName: string;
+  instrument: InstrumentSpec;
+  conversionRate: number;
+  riskSettings: RiskSettings;
+  accountSettings: AccountSettings;
+  tradingCosts: TradingCosts;
+  onUpdateConversionRate: (newRate: number) => void;
 }
 
+// Inputs captured on Calculate; results are derived from them so they follow balance and risk changes live
+type CalculatorInputs = Pick<TradeCalculationParams, "entryPrice" | "direction" | "orderType" | "customTP" | "customSL" | "takeProfitLevels" | "trailingStop">;
+
 interface ResultItemProps {
   label: string;
   value: string;
@@ -60,58 +73,136 @@ const ResultItem = ({ label, value, idSuffix }: ResultItemProps) => {
 };
 
 
-export function TradeCalculatorSection({ currentBalance, instrumentType, instrumentName }: TradeCalculatorSectionProps) {
+export function TradeCalculatorSection({ currentBalance, instrument, conversionRate, riskSettings, accountSettings, tradingCosts, onUpdateConversionRate }: TradeCalculatorSectionProps) {
   const [entryPrice, setEntryPrice] = useState<string>("");
-  const [tradeDirection, setTradeDirection] = useState<TradeDirection>("rise");
+  const [orderType, setOrderType] = useState<OrderType>("buy");
+  const [marketPrice, setMarketPrice] = useState<string>("");
+  const tradeDirection = getOrderDirection(orderType);
+  const showMarketPrice = isPendingOrder(orderType);
   
-  const defaultTP = instrumentType === 'volatility75' ? "2000" : "200";
-  const defaultSL = instrumentType === 'volatility75' ? "1000" : "100";
+  // Default TP follows the configured R:R on the strategy SL
+  const defaultTP = parseFloat((instrument.strategySLPips * riskSettings.rewardRatio).toFixed(2)).toString();
+  const defaultSL = instrument.strategySLPips.toString();
 
   const [customTP, setCustomTP] = useState<string>(defaultTP);
   const [customSL, setCustomSL] = useState<string>(defaultSL);
+  const [levelMode, setLevelMode] = useState<LevelInputMode>("distance");
+  const [tpPriceInput, setTpPriceInput] = useState<string>("");
+  const [slPriceInput, setSlPriceInput] = useState<string>("");
+  const [rateInput, setRateInput] = useState<string>(conversionRate.toString());
+  const [takeProfitInputs, setTakeProfitInputs] = useState<TakeProfitLevelInput[]>([]);
+  const [trailingStopInput, setTrailingStopInput] = useState<TrailingStopInput>(DEFAULT_TRAILING_STOP_INPUT);
+  const showConversionRate = needsQuoteConversion(instrument);
+  const conversionPair = getQuoteConversionPair(instrument);
+  const distanceUnit = getDistanceUnit(instrument);
   
-  const [results, setResults] = useState<TradeCalculationResult | null>(null);
+  const [calculatorInputs, setCalculatorInputs] = useState<CalculatorInputs | null>(null);
   const { toast } = useToast();
 
+  const results = useMemo(() => {
+    if (!calculatorInputs) {
+      return null;
+    }
+    return calculateTradePointsLogic({
+      ...calculatorInputs,
+      currentBalance,
+      instrument: applyTradingCosts(applyAccountCurrency(applyQuoteConversion(instrument, conversionRate), accountSettings), tradingCosts),
+      risk: riskSettings,
+      margin: { leverage: accountSettings.leverage, stopOutLevel: accountSettings.stopOutLevel },
+    });
+  }, [calculatorInputs, currentBalance, instrument, conversionRate, accountSettings, tradingCosts, riskSettings]);
+
+  // Why the trade's risk differs from the setting: a min-lot clamp, or a lot sized over other pips than its SL
+  const riskWarning = results
+    ? getLotClampWarning(results.lotClamp, results.riskPercent, riskSettings, instrument) ?? getOverRiskWarning(results.riskPercent, riskSettings)
+    : undefined;
+
+  useEffect(() => {
+    setCustomTP(defaultTP);
+    setCustomSL(defaultSL);
+  }, [defaultTP, defaultSL]);
+
   useEffect(() => {
-    setCustomTP(instrumentType === 'volatility75' ? "2000" : "200");
-    setCustomSL(instrumentType === 'volatility75' ? "1000" : "100");
-  }, [instrumentType]);
+    setRateInput(conversionRate.toString());
+  }, [conversionRate]);
 
 
   const handleCalculate = () => {
     const entry = parseFloat(entryPrice);
-    const tpPips = parseInt(customTP);
-    const slPips = parseInt(customSL);
 
     if (isNaN(entry) || entry <=0) { // Entry price should be positive
       toast({ variant: "destructive", title: "Invalid Input", description: "Please enter a valid entry price." });
       return;
     }
-    if (isNaN(tpPips) || tpPips <=0) {
-      toast({ variant: "destructive", title: "Invalid Input", description: "Please enter valid pips for Custom TP (must be > 0)." });
+
+    // Pending orders are sized from their entry, which must sit on the right side of the market
+    if (showMarketPrice) {
+      const market = parseFloat(marketPrice);
+      const orderLabel = ORDER_TYPES.find(({ value }) => value === orderType)?.label;
+      if (isNaN(market) || market <= 0) {
+        toast({ variant: "destructive", title: "Invalid Input", description: "Please enter a valid current market price." });
+        return;
+      }
+      if (!isEntryOnCorrectSideOfMarket(orderType, entry, market)) {
+        toast({ variant: "destructive", title: "Invalid Input", description: `A ${orderLabel} entry must be ${getPendingEntrySide(orderType)} the current market price.` });
+        return;
+      }
+    }
+
+    const sl = parseLevelPips(levelMode === "price" ? slPriceInput : customSL, levelMode, "sl", entry, tradeDirection, instrument);
+    if ("error" in sl) {
+      toast({ variant: "destructive", title: "Invalid Input", description: sl.error });
       return;
     }
-     if (isNaN(slPips) || slPips <=0) {
-      toast({ variant: "destructive", title: "Invalid Input", description: "Please enter valid pips for Custom SL (must be > 0)." });
+
+    // A blank TP price falls back to the configured R:R on the SL
+    const tpInput = levelMode === "price" ? tpPriceInput : customTP;
+    const tp = levelMode === "price" && tpInput.trim() === ""
+      ? { pips: undefined }
+      : parseLevelPips(tpInput, levelMode, "tp", entry, tradeDirection, instrument);
+    if ("error" in tp) {
+      toast({ variant: "destructive", title: "Invalid Input", description: tp.error });
       return;
     }
 
-    const calculated = calculateTradePointsLogic({
+    const ladder = parseTakeProfitLevels(takeProfitInputs);
+    if ("error" in ladder) {
+      toast({ variant: "destructive", title: "Invalid Input", description: ladder.error });
+      return;
+    }
+
+    const trailing = parseTrailingStopInput(trailingStopInput, distanceUnit);
+    if ("error" in trailing) {
+      toast({ variant: "destructive", title: "Invalid Input", description: trailing.error });
+      return;
+    }
+
+    if (showConversionRate) {
+      const rate = parseFloat(rateInput);
+      if (isNaN(rate) || rate <= 0) {
+        toast({ variant: "destructive", title: "Invalid Input", description: `Please enter a valid ${conversionPair} rate.` });
+        return;
+      }
+      if (rate !== conversionRate) {
+        onUpdateConversionRate(rate);
+      }
+    }
+
+    setCalculatorInputs({
       entryPrice: entry,
       direction: tradeDirection,
-      customTP: tpPips,
-      customSL: slPips,
-      currentBalance,
-      instrumentType,
+      orderType,
+      customTP: tp.pips,
+      customSL: sl.pips,
+      takeProfitLevels: ladder.levels,
+      trailingStop: trailing.settings,
     });
-    setResults(calculated);
   };
 
   return (
     <Card className="shadow-lg mb-8">
       <CardHeader>
-        <CardTitle className="text-xl font-semibold text-primary">{instrumentName} Trade Calculator</CardTitle>
+        <CardTitle className="text-xl font-semibold text-primary">{instrument.name} Trade Calculator</CardTitle>
       </CardHeader>
       <CardContent>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
@@ -120,52 +211,187 @@ export function TradeCalculatorSection({ currentBalance, instrumentType, instrum
             <Input id="entryPriceCalc" type="number" placeholder="Enter entry price" value={entryPrice} onChange={(e) => setEntryPrice(e.target.value)} />
           </div>
           <div>
-            <Label htmlFor="tradeDirectionCalc" className="text-foreground/80">Trade Direction</Label>
-            <Select value={tradeDirection} onValueChange={(value: TradeDirection) => setTradeDirection(value)}>
-              <SelectTrigger id="tradeDirectionCalc">
-                <SelectValue placeholder="Select direction" />
+            <Label htmlFor="orderTypeCalc" className="text-foreground/80">Order Type</Label>
+            <Select value={orderType} onValueChange={(value: OrderType) => setOrderType(value)}>
+              <SelectTrigger id="orderTypeCalc">
+                <SelectValue placeholder="Select order type" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="rise">
-                  <div className="flex items-center"><ArrowUpRight className="h-4 w-4 mr-2 text-green-500" /> Rise (Buy)</div>
-                </SelectItem>
-                <SelectItem value="fall">
-                  <div className="flex items-center"><ArrowDownLeft className="h-4 w-4 mr-2 text-red-500" /> Fall (Sell)</div>
-                </SelectItem>
+                {ORDER_TYPES.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>
+                    <div className="flex items-center">
+                      {getOrderDirection(value) === "rise"
+                        ? <ArrowUpRight className="h-4 w-4 mr-2 text-green-500" />
+                        : <ArrowDownLeft className="h-4 w-4 mr-2 text-red-500" />}
+                      {label}
+                    </div>
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
+          {showMarketPrice && (
+            <div>
+              <Label htmlFor="marketPriceCalc" className="text-foreground/80">Current Market Price</Label>
+              <Input id="marketPriceCalc" type="number" placeholder="Price now" value={marketPrice} onChange={(e) => setMarketPrice(e.target.value)} />
+            </div>
+          )}
           <div>
-            <Label htmlFor="customTPCalc" className="text-foreground/80">Custom Take Profit (pips)</Label>
-            <Input 
-              id="customTPCalc" 
-              type="number" 
-              placeholder={instrumentType === 'volatility75' ? "e.g., 2000" : "e.g., 200"} 
-              value={customTP} 
-              onChange={(e) => setCustomTP(e.target.value)} 
-            />
-          </div>
-           <div>
-            <Label htmlFor="customSLCalc" className="text-foreground/80">Custom Stop Loss (pips)</Label>
-            <Input 
-              id="customSLCalc" 
-              type="number" 
-              placeholder={instrumentType === 'volatility75' ? "e.g., 1000" : "e.g., 100"} 
-              value={customSL} 
-              onChange={(e) => setCustomSL(e.target.value)} 
-            />
+            <Label htmlFor="levelModeCalc" className="text-foreground/80">SL / TP Input</Label>
+            <Select value={levelMode} onValueChange={(value: LevelInputMode) => setLevelMode(value)}>
+              <SelectTrigger id="levelModeCalc">
+                <SelectValue placeholder="Select input" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="distance">Distance ({distanceUnit})</SelectItem>
+                <SelectItem value="price">Price levels</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
+          {levelMode === "distance" ? (
+            <>
+              <div>
+                <Label htmlFor="customTPCalc" className="text-foreground/80">Custom Take Profit ({distanceUnit})</Label>
+                <Input 
+                  id="customTPCalc" 
+                  type="number" 
+                  placeholder={`e.g., ${defaultTP}`} 
+                  value={customTP} 
+                  onChange={(e) => setCustomTP(e.target.value)} 
+                />
+              </div>
+              <div>
+                <Label htmlFor="customSLCalc" className="text-foreground/80">Custom Stop Loss ({distanceUnit})</Label>
+                <Input 
+                  id="customSLCalc" 
+                  type="number" 
+                  placeholder={`e.g., ${defaultSL}`} 
+                  value={customSL} 
+                  onChange={(e) => setCustomSL(e.target.value)} 
+                />
+              </div>
+            </>
+          ) : (
+            <>
+              <div>
+                <Label htmlFor="tpPriceCalc" className="text-foreground/80">Take Profit Price (optional)</Label>
+                <Input
+                  id="tpPriceCalc"
+                  type="number"
+                  placeholder={`Blank uses 1:${riskSettings.rewardRatio.toFixed(1)}`}
+                  value={tpPriceInput}
+                  onChange={(e) => setTpPriceInput(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="slPriceCalc" className="text-foreground/80">Stop Loss Price</Label>
+                <Input
+                  id="slPriceCalc"
+                  type="number"
+                  placeholder="Level from the chart"
+                  value={slPriceInput}
+                  onChange={(e) => setSlPriceInput(e.target.value)}
+                />
+              </div>
+            </>
+          )}
+          {showConversionRate && (
+            <div>
+              <Label htmlFor="conversionRateCalc" className="text-foreground/80">{conversionPair} Rate ({instrument.quoteCurrency} pip value → USD)</Label>
+              <Input
+                id="conversionRateCalc"
+                type="number"
+                placeholder={`e.g., ${instrument.defaultConversionRate ?? 1}`}
+                value={rateInput}
+                onChange={(e) => setRateInput(e.target.value)}
+              />
+            </div>
+          )}
         </div>
+        <TakeProfitLadderInputs
+          levels={takeProfitInputs}
+          distanceUnit={distanceUnit}
+          idSuffix={instrument.id}
+          onChange={setTakeProfitInputs}
+        />
+        <TrailingStopInputs
+          input={trailingStopInput}
+          distanceUnit={distanceUnit}
+          idSuffix={instrument.id}
+          onChange={setTrailingStopInput}
+        />
         <Button onClick={handleCalculate} className="w-full bg-accent hover:bg-accent/90 text-accent-foreground mb-6 py-3 text-base">
           Calculate Trade Parameters
         </Button>
 
         {results && (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-            <ResultItem label="Custom Take Profit (TP)" value={results.tpCustom} idSuffix={instrumentType} />
-            <ResultItem label="Stop Loss (SL)" value={results.slPrice} idSuffix={instrumentType} />
-            <ResultItem label="Recommended Lot Size" value={results.calculatedLots} idSuffix={instrumentType} />
-          </div>
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              <ResultItem label="Custom Take Profit (TP)" value={results.tpCustom} idSuffix={instrument.id} />
+              <ResultItem label="Stop Loss (SL)" value={results.slPrice} idSuffix={instrument.id} />
+              <ResultItem label="Recommended Lot Size" value={results.calculatedLots} idSuffix={instrument.id} />
+              <ResultItem
+                label="Effective Risk"
+                value={results.riskAmount === "-" ? "-" : `${formatMoney(Number(results.riskAmount), accountSettings.currency)} (${results.riskPercent}%)`}
+                idSuffix={instrument.id}
+              />
+              <ResultItem
+                label="Trading Costs"
+                value={results.costAmount === "-" ? "-" : formatMoney(Number(results.costAmount), accountSettings.currency)}
+                idSuffix={instrument.id}
+              />
+              <ResultItem label="Reward : Risk" value={`1:${results.rewardRatio}`} idSuffix={instrument.id} />
+            </div>
+            <div className="mt-4">
+              <ResultItem label="Order Ticket" value={results.ticket} idSuffix={instrument.id} />
+            </div>
+            {results.orders.length > 1 && (
+              <OrderSplitList orders={results.orders} maxLot={instrument.maxLot.toFixed(instrument.lotPrecision)} />
+            )}
+            {riskWarning && (
+              <p className="flex items-center mt-3 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4 mr-2 shrink-0" />
+                {riskWarning}
+              </p>
+            )}
+            {results.margin && (
+              <div className="mt-6">
+                <h4 className="font-semibold text-foreground/80 mb-2">Margin at 1:{accountSettings.leverage}</h4>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                  <ResultItem label="Required Margin" value={formatMoney(Number(results.margin.requiredMargin), accountSettings.currency)} idSuffix={instrument.id} />
+                  <ResultItem label="Free Margin" value={formatMoney(Number(results.margin.freeMargin), accountSettings.currency)} idSuffix={instrument.id} />
+                  <ResultItem label="Margin Level" value={results.margin.marginLevel === "-" ? "-" : `${results.margin.marginLevel}%`} idSuffix={instrument.id} />
+                  <ResultItem label="Stop-Out Price" value={results.margin.stopOutPrice} idSuffix={instrument.id} />
+                </div>
+                {Number(results.margin.freeMargin) < 0 && (
+                  <p className="flex items-center mt-3 text-sm text-destructive">
+                    <AlertTriangle className="h-4 w-4 mr-2 shrink-0" />
+                    Not enough free margin to open this position at 1:{accountSettings.leverage}.
+                  </p>
+                )}
+                {results.margin.stopOutBeforeSL && (
+                  <p className="flex items-center mt-3 text-sm text-destructive">
+                    <AlertTriangle className="h-4 w-4 mr-2 shrink-0" />
+                    The {accountSettings.stopOutLevel}% stop-out level is hit before the stop loss at {results.slPrice}.
+                  </p>
+                )}
+              </div>
+            )}
+            {results.takeProfitLadder && (
+              <TakeProfitLadderResults
+                ladder={results.takeProfitLadder}
+                distanceUnit={distanceUnit}
+                currency={accountSettings.currency}
+              />
+            )}
+            {results.trailingStopPlan && (
+              <TrailingStopResults
+                steps={results.trailingStopPlan}
+                distanceUnit={distanceUnit}
+                currency={accountSettings.currency}
+              />
+            )}
+          </>
         )}
       </CardContent>
     </Card>
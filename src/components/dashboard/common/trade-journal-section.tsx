@@ -0,0 +1,326 @@
+"use client";
+
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+import { Pencil, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { formatMoney } from "@/lib/currency";
+import { calculateJournalProfitLoss, createJournalEntryId, getJournalEntryNetProfit } from "@/lib/journal";
+import { optionalNonNegativeNumber, optionalNumber, optionalPositiveNumber, positiveNumber } from "@/lib/form-schemas";
+import type { InstrumentSpec, JournalEntry } from "@/lib/types";
+
+const formSchema = z.object({
+  direction: z.enum(["rise", "fall"]),
+  entryPrice: positiveNumber("Entry price"),
+  exitPrice: positiveNumber("Exit price"),
+  stopLoss: optionalPositiveNumber("Stop loss"),
+  takeProfit: optionalPositiveNumber("Take profit"),
+  lots: positiveNumber("Lots"),
+  openedAt: z.string().min(1, { message: "Open time is required." }),
+  closedAt: z.string().min(1, { message: "Close time is required." }),
+  profitLoss: optionalNumber("P/L"),
+  fees: optionalNonNegativeNumber("Fees"),
+  notes: z.string().max(500, { message: "Notes must be 500 characters or fewer." }),
+}).refine((values) => new Date(values.closedAt) >= new Date(values.openedAt), {
+  message: "Close time must be after the open time.",
+  path: ["closedAt"],
+});
+
+type JournalFormValues = z.infer<typeof formSchema>;
+
+// datetime-local inputs work in local time without a zone suffix
+const toLocalDateTimeInput = (date: Date) => {
+  const offsetDate = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return offsetDate.toISOString().slice(0, 16);
+};
+
+const getEmptyFormValues = (): JournalFormValues => ({
+  direction: "rise",
+  entryPrice: "",
+  exitPrice: "",
+  stopLoss: "",
+  takeProfit: "",
+  lots: "",
+  openedAt: toLocalDateTimeInput(new Date()),
+  closedAt: toLocalDateTimeInput(new Date()),
+  profitLoss: "",
+  fees: "",
+  notes: "",
+});
+
+const toFormValues = (entry: JournalEntry): JournalFormValues => ({
+  direction: entry.direction,
+  entryPrice: entry.entryPrice?.toString() ?? "",
+  exitPrice: entry.exitPrice?.toString() ?? "",
+  stopLoss: entry.stopLoss?.toString() ?? "",
+  takeProfit: entry.takeProfit?.toString() ?? "",
+  lots: entry.lots.toString(),
+  openedAt: toLocalDateTimeInput(new Date(entry.openedAt)),
+  closedAt: toLocalDateTimeInput(new Date(entry.closedAt)),
+  profitLoss: entry.profitLoss.toString(),
+  fees: entry.fees.toString(),
+  notes: entry.notes,
+});
+
+const NUMBER_FIELDS: { name: "entryPrice" | "exitPrice" | "stopLoss" | "takeProfit" | "lots"; label: string }[] = [
+  { name: "entryPrice", label: "Entry Price" },
+  { name: "exitPrice", label: "Exit Price" },
+  { name: "stopLoss", label: "Stop Loss (optional)" },
+  { name: "takeProfit", label: "Take Profit (optional)" },
+  { name: "lots", label: "Lots" },
+];
+
+interface TradeJournalSectionProps {
+  instrument: InstrumentSpec; // Priced in the account currency, for P/L worked out from prices
+  journalEntries: JournalEntry[];
+  currency?: string;
+  onSaveEntry: (entry: JournalEntry) => void;
+  onDeleteEntry: (entryId: string) => void;
+}
+
+export function TradeJournalSection({ instrument, journalEntries, currency = "USD", onSaveEntry, onDeleteEntry }: TradeJournalSectionProps) {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+
+  const form = useForm<JournalFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: getEmptyFormValues(),
+  });
+
+  const resetForm = () => {
+    setEditingId(null);
+    form.reset(getEmptyFormValues());
+  };
+
+  function onSubmit(values: JournalFormValues) {
+    const direction = values.direction;
+    const entryPrice = Number(values.entryPrice);
+    const exitPrice = Number(values.exitPrice);
+    const lots = Number(values.lots);
+    const entry: JournalEntry = {
+      // Keep the trade plan link of a result logged from the plan
+      ...journalEntries.find(existing => existing.id === editingId),
+      id: editingId ?? createJournalEntryId(),
+      instrument: instrument.id,
+      direction,
+      entryPrice,
+      exitPrice,
+      stopLoss: values.stopLoss !== "" ? Number(values.stopLoss) : undefined,
+      takeProfit: values.takeProfit !== "" ? Number(values.takeProfit) : undefined,
+      lots,
+      openedAt: new Date(values.openedAt).toISOString(),
+      closedAt: new Date(values.closedAt).toISOString(),
+      // A blank P/L is worked out from the prices
+      profitLoss: values.profitLoss !== ""
+        ? Number(values.profitLoss)
+        : parseFloat(calculateJournalProfitLoss(direction, entryPrice, exitPrice, lots, instrument).toFixed(2)),
+      fees: values.fees !== "" ? Number(values.fees) : 0,
+      notes: values.notes.trim(),
+    };
+    onSaveEntry(entry);
+    toast({
+      title: editingId ? "Journal Entry Updated" : "Trade Logged",
+      description: `Net P/L of ${formatMoney(getJournalEntryNetProfit(entry), currency)} recorded for ${instrument.shortName}.`,
+    });
+    resetForm();
+  }
+
+  const handleEdit = (entry: JournalEntry) => {
+    setEditingId(entry.id);
+    form.reset(toFormValues(entry));
+  };
+
+  const handleDelete = (entry: JournalEntry) => {
+    onDeleteEntry(entry.id);
+    if (editingId === entry.id) {
+      resetForm();
+    }
+    toast({
+      title: "Journal Entry Deleted",
+      description: `The ${new Date(entry.closedAt).toLocaleDateString()} trade was removed and the balance updated.`,
+    });
+  };
+
+  return (
+    <Card className="shadow-lg mb-8">
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold text-primary">Trade Journal</CardTitle>
+        <CardDescription>Your balance is the starting balance plus the net P/L of every trade logged here.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6 mb-8">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              <FormField
+                control={form.control}
+                name="direction"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-foreground/80">Direction</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select direction" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="rise">Rise (Buy)</SelectItem>
+                        <SelectItem value="fall">Fall (Sell)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {NUMBER_FIELDS.map(({ name, label }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-foreground/80">{label}</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="any" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+              <FormField
+                control={form.control}
+                name="openedAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-foreground/80">Opened</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="closedAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-foreground/80">Closed</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="profitLoss"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-foreground/80">P/L ({currency})</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" {...field} />
+                    </FormControl>
+                    <FormDescription>Leave empty to work it out from the prices.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="fees"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-foreground/80">Fees ({currency})</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" placeholder="0" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-foreground/80">Notes</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Setup, reasons, mistakes..." {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="flex space-x-2">
+              <Button type="submit" className="flex-grow bg-accent hover:bg-accent/90 text-accent-foreground">
+                {editingId ? "Update Entry" : "Log Trade"}
+              </Button>
+              {editingId && (
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </form>
+        </Form>
+
+        {journalEntries.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Closed</TableHead>
+                <TableHead>Direction</TableHead>
+                <TableHead>Lots</TableHead>
+                <TableHead>Entry → Exit</TableHead>
+                <TableHead>Net P/L</TableHead>
+                <TableHead>Notes</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {journalEntries.map((entry) => {
+                const netProfit = getJournalEntryNetProfit(entry);
+                return (
+                  <TableRow key={entry.id}>
+                    <TableCell>{new Date(entry.closedAt).toLocaleString()}</TableCell>
+                    <TableCell>{entry.direction === "rise" ? "Buy" : "Sell"}</TableCell>
+                    <TableCell>{entry.lots}</TableCell>
+                    <TableCell>{entry.entryPrice !== undefined && entry.exitPrice !== undefined ? `${entry.entryPrice} → ${entry.exitPrice}` : "-"}</TableCell>
+                    <TableCell className={netProfit >= 0 ? "text-green-600 dark:text-green-400" : "text-destructive"}>
+                      {formatMoney(netProfit, currency)}
+                    </TableCell>
+                    <TableCell className="max-w-[200px] truncate" title={entry.notes}>{entry.notes || "-"}</TableCell>
+                    <TableCell className="text-right space-x-1">
+                      <Button variant="ghost" size="icon" onClick={() => handleEdit(entry)} aria-label="Edit journal entry">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(entry)} aria-label="Delete journal entry">
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center">No trades logged yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,14 +1,36 @@
 "use client";
 
+import { useEffect, useRef, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
-import type { TradePlan, TradeGroup, TradeDetail } from "@/lib/types";
-import { CheckCircle2, CircleDotDashed } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { TradePlan, TradeGroup, TradeDetail, PlanLayout, TradeOutcome, TradeDirection } from "@/lib/types";
+import { AlertTriangle, CheckCircle2, CircleDotDashed } from "lucide-react";
+import { formatMoney } from "@/lib/currency";
+import { TRADE_OUTCOMES, getTradeOutcomeLabel } from "@/lib/journal";
+import { useToast } from "@/hooks/use-toast";
+import { OrderSplitList } from "./order-split-list";
 
 interface TradeManagementSectionProps {
   tradePlan: TradePlan;
+  planLayout: PlanLayout;
+  onUpdatePlanLayout: (newLayout: PlanLayout) => void;
+  onLogTradeResult: (trade: TradeDetail, direction: TradeDirection, outcome: TradeOutcome, profitLoss: number) => void; // Journals the result
+  currency?: string;
+  maxLot: string; // Shown when a trade is split into several orders
+  maxTradesPerDay?: number; // From the active strategy profile; no limit when unset
+  riskPercent: number; // Configured risk %, shared by the plan's trades
+  minLot: string;
 }
 
+const LAYOUT_OPTIONS = [1, 2, 3, 4, 5];
+
+const getGroupPercent = (group: TradeGroup) =>
+  group.trades.reduce((sum, trade) => sum + Number(trade.percent), 0).toFixed(2);
+
 const TradeStatusIcon = ({ status }: { status: TradeDetail['status'] }) => {
   if (status === "✅ Completed") {
     return <CheckCircle2 className="h-5 w-5 text-green-500 mr-2" />;
@@ -16,21 +38,179 @@ const TradeStatusIcon = ({ status }: { status: TradeDetail['status'] }) => {
   return <CircleDotDashed className="h-5 w-5 text-yellow-500 mr-2" />;
 };
 
-export function TradeManagementSection({ tradePlan }: TradeManagementSectionProps) {
+// Planned P/L for each outcome; manual closes start empty so the realized figure is typed in
+const getDefaultProfitLoss = (trade: TradeDetail, outcome: TradeOutcome): string => {
+  if (outcome === "tp") return trade.profit;
+  if (outcome === "sl") return (-Number(trade.risk)).toFixed(2);
+  if (outcome === "breakEven") return "0";
+  return "";
+};
+
+interface LogTradeResultFormProps {
+  trade: TradeDetail;
+  onLogTradeResult: TradeManagementSectionProps['onLogTradeResult'];
+  currency: string;
+}
+
+function LogTradeResultForm({ trade, onLogTradeResult, currency }: LogTradeResultFormProps) {
+  const [direction, setDirection] = useState<TradeDirection>("rise");
+  const [outcome, setOutcome] = useState<TradeOutcome>("tp");
+  const [profitLoss, setProfitLoss] = useState(trade.profit);
+  const { toast } = useToast();
+
+  const defaultProfitLoss = getDefaultProfitLoss(trade, outcome);
+  const previousDefaultRef = useRef(defaultProfitLoss);
+
+  // The plan is rebuilt whenever the balance moves; follow the new default only while the field still
+  // holds the old one, so a P/L the user typed survives
+  useEffect(() => {
+    const previousDefault = previousDefaultRef.current;
+    previousDefaultRef.current = defaultProfitLoss;
+    setProfitLoss(current => (current === previousDefault ? defaultProfitLoss : current));
+  }, [defaultProfitLoss]);
+
+  const handleOutcomeChange = (value: string) => {
+    const newOutcome = value as TradeOutcome;
+    setOutcome(newOutcome);
+    setProfitLoss(getDefaultProfitLoss(trade, newOutcome));
+  };
+
+  const handleLogResult = () => {
+    const amount = parseFloat(profitLoss);
+    if (isNaN(amount)) {
+      toast({
+        variant: "destructive",
+        title: "Invalid Input",
+        description: "Please enter the realized P/L for this trade.",
+      });
+      return;
+    }
+    onLogTradeResult(trade, direction, outcome, amount);
+    toast({
+      title: "Trade Result Logged",
+      description: `Trade ${trade.tradeNumber + 1}: ${getTradeOutcomeLabel(outcome)}, ${formatMoney(amount, currency)}`,
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-2 mt-3">
+      <div className="space-y-1">
+        <Label htmlFor={`tradeDirection-${trade.tradeNumber}`} className="text-xs text-foreground/80">Direction</Label>
+        <Select value={direction} onValueChange={(value: TradeDirection) => setDirection(value)}>
+          <SelectTrigger id={`tradeDirection-${trade.tradeNumber}`} className="h-8 w-24">
+            <SelectValue placeholder="Direction" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="rise">Buy</SelectItem>
+            <SelectItem value="fall">Sell</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`tradeOutcome-${trade.tradeNumber}`} className="text-xs text-foreground/80">Outcome</Label>
+        <Select value={outcome} onValueChange={handleOutcomeChange}>
+          <SelectTrigger id={`tradeOutcome-${trade.tradeNumber}`} className="h-8 w-36">
+            <SelectValue placeholder="Outcome" />
+          </SelectTrigger>
+          <SelectContent>
+            {TRADE_OUTCOMES.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1 flex-grow">
+        <Label htmlFor={`tradeProfitLoss-${trade.tradeNumber}`} className="text-xs text-foreground/80">Realized P/L</Label>
+        <Input
+          id={`tradeProfitLoss-${trade.tradeNumber}`}
+          type="number"
+          placeholder="e.g., -12.50"
+          value={profitLoss}
+          onChange={(e) => setProfitLoss(e.target.value)}
+          className="h-8"
+        />
+      </div>
+      <Button size="sm" onClick={handleLogResult} className="bg-accent hover:bg-accent/90 text-accent-foreground">
+        Log Result
+      </Button>
+    </div>
+  );
+}
+
+export function TradeManagementSection({ tradePlan, planLayout, onUpdatePlanLayout, onLogTradeResult, maxLot, currency = "USD", maxTradesPerDay, riskPercent, minLot }: TradeManagementSectionProps) {
+  const reachedTradeLimit = maxTradesPerDay !== undefined && tradePlan.completedTrades >= maxTradesPerDay;
+
   return (
     <Card className="shadow-lg mb-8">
       <CardHeader>
         <CardTitle className="text-xl font-semibold text-primary">Trade Management</CardTitle>
       </CardHeader>
       <CardContent>
+        <div className="grid grid-cols-2 gap-4 mb-6">
+          <div className="space-y-2">
+            <Label htmlFor="planGroupCount" className="text-foreground/80">Groups</Label>
+            <Select
+              value={planLayout.groupCount.toString()}
+              onValueChange={(value) => onUpdatePlanLayout({ ...planLayout, groupCount: Number(value) })}
+            >
+              <SelectTrigger id="planGroupCount">
+                <SelectValue placeholder="Groups" />
+              </SelectTrigger>
+              <SelectContent>
+                {LAYOUT_OPTIONS.map((count) => (
+                  <SelectItem key={count} value={count.toString()}>{count}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="planTradesPerGroup" className="text-foreground/80">Trades per Group</Label>
+            <Select
+              value={planLayout.tradesPerGroup.toString()}
+              onValueChange={(value) => onUpdatePlanLayout({ ...planLayout, tradesPerGroup: Number(value) })}
+            >
+              <SelectTrigger id="planTradesPerGroup">
+                <SelectValue placeholder="Trades per group" />
+              </SelectTrigger>
+              <SelectContent>
+                {LAYOUT_OPTIONS.map((count) => (
+                  <SelectItem key={count} value={count.toString()}>{count}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
         <div className="p-4 bg-primary/10 rounded-lg mb-6 shadow">
           <h4 className="font-semibold text-lg text-primary mb-2">Daily Summary</h4>
           <div className="grid grid-cols-2 gap-2 text-sm">
-            <p><strong className="text-foreground/80">Daily Target:</strong> ${tradePlan.dailyTarget.toFixed(2)}</p>
+            <p><strong className="text-foreground/80">Daily Target:</strong> {formatMoney(tradePlan.dailyTarget, currency)}</p>
             <p><strong className="text-foreground/80">Total Trades Required:</strong> {tradePlan.totalTradesRequired}</p>
             <p><strong className="text-foreground/80">Completed Trades:</strong> {tradePlan.completedTrades}</p>
             <p><strong className="text-foreground/80">Remaining Trades:</strong> {tradePlan.remainingTrades}</p>
+            <p><strong className="text-foreground/80">Total Risk:</strong> {tradePlan.riskPercent}%</p>
+            {maxTradesPerDay !== undefined && (
+              <p><strong className="text-foreground/80">Max Trades per Day:</strong> {maxTradesPerDay}</p>
+            )}
           </div>
+          {maxTradesPerDay !== undefined && tradePlan.totalTradesRequired > maxTradesPerDay && (
+            <p className="flex items-center mt-3 text-sm text-destructive">
+              <AlertTriangle className="h-4 w-4 mr-2 shrink-0" />
+              This plan needs more trades than the strategy allows per day.
+            </p>
+          )}
+          {tradePlan.lotClamp === "min" && (
+            <p className="flex items-center mt-3 text-sm text-destructive">
+              <AlertTriangle className="h-4 w-4 mr-2 shrink-0" />
+              Each trade&apos;s share of the risk is below the minimum lot of {minLot}, so the plan risks {tradePlan.riskPercent}% in total, above your {riskPercent.toFixed(1)}% setting.
+            </p>
+          )}
+          {reachedTradeLimit && (
+            <p className="flex items-center mt-3 text-sm text-destructive">
+              <AlertTriangle className="h-4 w-4 mr-2 shrink-0" />
+              Daily trade limit reached for this strategy. No more trades today.
+            </p>
+          )}
         </div>
 
         <Accordion type="multiple" defaultValue={tradePlan.groups.map(g => `group-${g.groupNumber}`)} className="w-full">
@@ -39,10 +219,10 @@ export function TradeManagementSection({ tradePlan }: TradeManagementSectionProp
               <AccordionTrigger className="px-4 py-3 hover:bg-secondary/50 rounded-t-lg">
                 <div className="flex justify-between w-full items-center">
                   <span className="font-semibold text-md text-primary">
-                    1% Target Group {group.groupNumber}
+                    Group {group.groupNumber} ({getGroupPercent(group)}% Target)
                   </span>
                   <span className="text-xs text-muted-foreground">
-                    {group.trades.length} trades, {group.totalLots} lots total
+                    {group.trades.length} {group.trades.length === 1 ? "trade" : "trades"}, {group.totalLots} lots total
                   </span>
                 </div>
               </AccordionTrigger>
@@ -53,14 +233,20 @@ export function TradeManagementSection({ tradePlan }: TradeManagementSectionProp
                       <div className="flex items-center justify-between mb-1">
                         <h5 className="font-medium text-foreground">Trade {trade.tradeNumber + 1}</h5>
                          <div className={`flex items-center text-xs px-2 py-1 rounded-full ${trade.status === "✅ Completed" ? "bg-green-100 text-green-700 dark:bg-green-700 dark:text-green-100" : "bg-yellow-100 text-yellow-700 dark:bg-yellow-700 dark:text-yellow-100"}`}>
-                          <TradeStatusIcon status={trade.status} /> {trade.status.split(" ")[1]}
+                          <TradeStatusIcon status={trade.status} /> {trade.outcome ? getTradeOutcomeLabel(trade.outcome) : trade.status.split(" ")[1]}
                         </div>
                       </div>
                       <div className="grid grid-cols-3 gap-x-2 text-sm text-muted-foreground">
                         <span>Lots: <strong className="text-foreground">{trade.lots}</strong></span>
-                        <span>Profit: <strong className="text-foreground">${trade.profit}</strong></span>
+                        <span>Profit: <strong className="text-foreground">{formatMoney(Number(trade.profit), currency)}</strong></span>
                         <span>Gain: <strong className="text-foreground">{trade.percent}%</strong></span>
                       </div>
+                      {trade.orders.length > 1 && (
+                        <OrderSplitList orders={trade.orders} maxLot={maxLot} />
+                      )}
+                      {trade.status === "🟡 Pending" && (
+                        <LogTradeResultForm trade={trade} onLogTradeResult={onLogTradeResult} currency={currency} />
+                      )}
                     </div>
                   ))}
                 </div>
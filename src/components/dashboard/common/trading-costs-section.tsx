@@ -0,0 +1,99 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { getDistanceUnit } from "@/lib/instruments";
+import type { InstrumentSpec, TradingCosts } from "@/lib/types";
+
+interface TradingCostsSectionProps {
+  instrument: InstrumentSpec;
+  tradingCosts: TradingCosts;
+  currency?: string;
+  onUpdateTradingCosts: (newCosts: TradingCosts) => void;
+}
+
+type TradingCostsInputs = Record<keyof TradingCosts, string>;
+
+const toInputs = (costs: TradingCosts): TradingCostsInputs => ({
+  spreadPips: costs.spreadPips.toString(),
+  commissionPerLot: costs.commissionPerLot.toString(),
+  swapPerNight: costs.swapPerNight.toString(),
+  nights: costs.nights.toString(),
+});
+
+export function TradingCostsSection({ instrument, tradingCosts, currency = "USD", onUpdateTradingCosts }: TradingCostsSectionProps) {
+  const [inputs, setInputs] = useState<TradingCostsInputs>(toInputs(tradingCosts));
+  const distanceUnit = getDistanceUnit(instrument);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setInputs(toInputs(tradingCosts));
+  }, [tradingCosts]);
+
+  const handleSave = () => {
+    const spreadPips = parseFloat(inputs.spreadPips);
+    const commissionPerLot = parseFloat(inputs.commissionPerLot);
+    const swapPerNight = parseFloat(inputs.swapPerNight);
+    const nights = Number(inputs.nights);
+
+    if (isNaN(spreadPips) || spreadPips < 0) {
+      toast({ variant: "destructive", title: "Invalid Input", description: `Please enter a valid spread in ${distanceUnit} (0 or more).` });
+      return;
+    }
+    if (isNaN(commissionPerLot) || commissionPerLot < 0) {
+      toast({ variant: "destructive", title: "Invalid Input", description: "Please enter a valid commission (0 or more)." });
+      return;
+    }
+    // Swap may be negative when the broker pays it
+    if (isNaN(swapPerNight)) {
+      toast({ variant: "destructive", title: "Invalid Input", description: "Please enter a valid swap per night." });
+      return;
+    }
+    if (!Number.isInteger(nights) || nights < 0) {
+      toast({ variant: "destructive", title: "Invalid Input", description: "Please enter the nights held as a whole number." });
+      return;
+    }
+
+    onUpdateTradingCosts({ spreadPips, commissionPerLot, swapPerNight, nights });
+    toast({
+      title: "Trading Costs Saved",
+      description: `Lot sizes and targets for ${instrument.shortName} now include these costs.`,
+    });
+  };
+
+  return (
+    <Card className="shadow-lg mb-8">
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold text-primary">Trading Costs</CardTitle>
+        <CardDescription>Lot sizes keep SL plus costs within the risk budget, and targets are shown net of costs.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div>
+            <Label htmlFor="spreadPips" className="text-foreground/80">Spread ({distanceUnit})</Label>
+            <Input id="spreadPips" type="number" step="any" value={inputs.spreadPips} onChange={(e) => setInputs({ ...inputs, spreadPips: e.target.value })} />
+          </div>
+          <div>
+            <Label htmlFor="commissionPerLot" className="text-foreground/80">Commission per Lot per Side ({currency})</Label>
+            <Input id="commissionPerLot" type="number" step="any" value={inputs.commissionPerLot} onChange={(e) => setInputs({ ...inputs, commissionPerLot: e.target.value })} />
+          </div>
+          <div>
+            <Label htmlFor="swapPerNight" className="text-foreground/80">Swap per Lot per Night ({currency})</Label>
+            <Input id="swapPerNight" type="number" step="any" value={inputs.swapPerNight} onChange={(e) => setInputs({ ...inputs, swapPerNight: e.target.value })} />
+          </div>
+          <div>
+            <Label htmlFor="swapNights" className="text-foreground/80">Nights Held</Label>
+            <Input id="swapNights" type="number" step="1" value={inputs.nights} onChange={(e) => setInputs({ ...inputs, nights: e.target.value })} />
+          </div>
+        </div>
+        <Button onClick={handleSave} className="w-full bg-accent hover:bg-accent/90 text-accent-foreground">
+          Save Trading Costs
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatMoney } from "@/lib/currency";
+import type { DistanceUnit, TargetMode, TrailingStopSettings, TrailingStopStep } from "@/lib/types";
+
+// Planner fields as typed; parsed into TrailingStopSettings on Calculate
+export interface TrailingStopInput {
+  enabled: boolean;
+  breakEvenTrigger: string;
+  breakEvenMode: TargetMode;
+  trailDistance: string;
+  trailStep: string;
+}
+
+export const DEFAULT_TRAILING_STOP_INPUT: TrailingStopInput = {
+  enabled: false,
+  breakEvenTrigger: "1",
+  breakEvenMode: "r",
+  trailDistance: "",
+  trailStep: "",
+};
+
+export const parseTrailingStopInput = (
+  input: TrailingStopInput,
+  distanceUnit: DistanceUnit
+): { settings?: TrailingStopSettings } | { error: string } => {
+  if (!input.enabled) {
+    return { settings: undefined };
+  }
+  const breakEvenTrigger = parseFloat(input.breakEvenTrigger);
+  const trailDistance = parseFloat(input.trailDistance);
+  const trailStep = parseFloat(input.trailStep);
+  if (isNaN(breakEvenTrigger) || breakEvenTrigger <= 0) {
+    return { error: "Please enter a valid break-even trigger (must be > 0)." };
+  }
+  if (isNaN(trailDistance) || trailDistance <= 0) {
+    return { error: `Please enter valid ${distanceUnit} for the trail distance (must be > 0).` };
+  }
+  if (isNaN(trailStep) || trailStep <= 0) {
+    return { error: `Please enter valid ${distanceUnit} for the trail step (must be > 0).` };
+  }
+  return { settings: { breakEvenTrigger, breakEvenMode: input.breakEvenMode, trailDistance, trailStep } };
+};
+
+interface TrailingStopInputsProps {
+  input: TrailingStopInput;
+  distanceUnit: DistanceUnit;
+  idSuffix: string;
+  onChange: (input: TrailingStopInput) => void;
+}
+
+export function TrailingStopInputs({ input, distanceUnit, idSuffix, onChange }: TrailingStopInputsProps) {
+  return (
+    <div className="space-y-3 mb-6">
+      <div className="flex items-center space-x-2">
+        <Switch
+          id={`trailingStopEnabled-${idSuffix}`}
+          checked={input.enabled}
+          onCheckedChange={(checked) => onChange({ ...input, enabled: checked })}
+        />
+        <Label htmlFor={`trailingStopEnabled-${idSuffix}`} className="font-semibold text-foreground/80">
+          Break-Even &amp; Trailing Stop
+        </Label>
+      </div>
+      {input.enabled && (
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          <div>
+            <Label htmlFor={`breakEvenTrigger-${idSuffix}`} className="text-xs text-foreground/80">Break-Even Trigger</Label>
+            <Input
+              id={`breakEvenTrigger-${idSuffix}`}
+              type="number"
+              step="any"
+              value={input.breakEvenTrigger}
+              onChange={(e) => onChange({ ...input, breakEvenTrigger: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor={`breakEvenMode-${idSuffix}`} className="text-xs text-foreground/80">Trigger Unit</Label>
+            <Select value={input.breakEvenMode} onValueChange={(value: TargetMode) => onChange({ ...input, breakEvenMode: value })}>
+              <SelectTrigger id={`breakEvenMode-${idSuffix}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="r">R-multiple</SelectItem>
+                <SelectItem value="distance">{distanceUnit}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor={`trailDistance-${idSuffix}`} className="text-xs text-foreground/80">Trail Distance ({distanceUnit})</Label>
+            <Input
+              id={`trailDistance-${idSuffix}`}
+              type="number"
+              step="any"
+              value={input.trailDistance}
+              onChange={(e) => onChange({ ...input, trailDistance: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor={`trailStep-${idSuffix}`} className="text-xs text-foreground/80">Trail Step ({distanceUnit})</Label>
+            <Input
+              id={`trailStep-${idSuffix}`}
+              type="number"
+              step="any"
+              value={input.trailStep}
+              onChange={(e) => onChange({ ...input, trailStep: e.target.value })}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface TrailingStopResultsProps {
+  steps: TrailingStopStep[];
+  distanceUnit: DistanceUnit;
+  currency: string;
+}
+
+export function TrailingStopResults({ steps, distanceUnit, currency }: TrailingStopResultsProps) {
+  return (
+    <div className="mt-6">
+      <h4 className="font-semibold text-foreground/80 mb-2">Stop-Loss Sequence</h4>
+      {steps.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Step</TableHead>
+              <TableHead>When Price Reaches</TableHead>
+              <TableHead>Move SL To</TableHead>
+              <TableHead>Locked ({distanceUnit})</TableHead>
+              <TableHead className="text-right">Profit Locked</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {steps.map((step, index) => (
+              <TableRow key={index}>
+                <TableCell className="font-medium">{index === 0 ? "Break-even" : `Trail ${index}`}</TableCell>
+                <TableCell>{step.triggerPrice}</TableCell>
+                <TableCell>{step.slPrice}</TableCell>
+                <TableCell>{step.lockedPips}</TableCell>
+                <TableCell className="text-right">{formatMoney(Number(step.lockedProfit), currency)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <p className="text-sm text-muted-foreground">The break-even trigger is beyond the take profit, so the SL never moves.</p>
+      )}
+    </div>
+  );
+}
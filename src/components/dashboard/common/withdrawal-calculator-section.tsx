@@ -10,7 +10,11 @@ import type { WithdrawalResult } from "@/lib/types";
 import { calculateWithdrawalLogic, getLocalStorageItem, setLocalStorageItem } from "@/lib/utils";
 import { Copy } from "lucide-react";
 
-export function WithdrawalCalculatorSection() {
+interface WithdrawalCalculatorSectionProps {
+  currency?: string;
+}
+
+export function WithdrawalCalculatorSection({ currency = "USD" }: WithdrawalCalculatorSectionProps) {
   const [manualBalance, setManualBalance] = useState<string>("");
   const [results, setResults] = useState<WithdrawalResult | null>(null);
   const [lastWithdrawalDate, setLastWithdrawalDate] = useState<string | null>(null);
@@ -54,7 +58,7 @@ export function WithdrawalCalculatorSection() {
     }
 
 
-    const calculated = calculateWithdrawalLogic(balance);
+    const calculated = calculateWithdrawalLogic(balance, currency);
     setResults(calculated);
   };
 
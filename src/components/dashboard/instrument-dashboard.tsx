@@ -0,0 +1,215 @@
+"use client";
+
+import { useMemo } from "react";
+import { useDashboardState } from "@/hooks/use-dashboard-state";
+import { MetricGrid } from "@/components/dashboard/common/metric-display";
+import { ProgressSection } from "@/components/dashboard/common/progress-section";
+import { EquityCurveSection } from "@/components/dashboard/common/equity-curve-section";
+import { PlanVsActualSection } from "@/components/dashboard/common/plan-vs-actual-section";
+import { TimezoneSelector } from "@/components/dashboard/common/timezone-selector";
+import { TradeManagementSection } from "@/components/dashboard/common/trade-management-section";
+import { TradeCalculatorSection } from "@/components/dashboard/common/trade-calculator-section";
+import { PositionRiskCalculatorSection } from "@/components/dashboard/common/position-risk-calculator-section";
+import { CompoundingCalculatorSection } from "@/components/dashboard/common/compounding-calculator-section";
+import { WithdrawalCalculatorSection } from "@/components/dashboard/common/withdrawal-calculator-section";
+import { BrokerProfileSelector } from "@/components/dashboard/common/broker-profile-selector";
+import { RiskSettingsSection } from "@/components/dashboard/common/risk-settings-section";
+import { TradeJournalSection } from "@/components/dashboard/common/trade-journal-section";
+import { PerformanceAnalyticsSection } from "@/components/dashboard/common/performance-analytics-section";
+import { RiskNote } from "@/components/dashboard/common/risk-note";
+import { TradingCostsSection } from "@/components/dashboard/common/trading-costs-section";
+import { StrategyProfileSection } from "@/components/dashboard/common/strategy-profile-section";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useBrokerProfiles } from "@/hooks/use-broker-profiles";
+import { useAccountSettings } from "@/hooks/use-account-settings";
+import { useStrategyProfiles } from "@/hooks/use-strategy-profiles";
+import { useTradeJournal } from "@/hooks/use-trade-journal";
+import { useAllJournalEntries } from "@/hooks/use-all-journal-entries";
+import { applyStrategyProfile } from "@/lib/instruments";
+import { applyBrokerProfile } from "@/lib/broker-profiles";
+import { calculatePerformanceStats } from "@/lib/performance";
+import { DEFAULT_RISK_SETTINGS } from "@/lib/utils";
+import type { BaseDashboardProps, StrategyProfile } from "@/lib/types";
+
+export function InstrumentDashboard({ instrument: baseInstrument }: BaseDashboardProps) {
+  const { brokerProfiles, activeProfile, handleSelectProfile } = useBrokerProfiles(baseInstrument.id);
+  const { strategyProfiles, activeStrategy, saveStrategyProfile, deleteStrategyProfile, handleSelectStrategy } = useStrategyProfiles(baseInstrument.id);
+  const { accountSettings } = useAccountSettings();
+  const { journalEntries, saveJournalEntry, deleteJournalEntry } = useTradeJournal(baseInstrument.id);
+  const brokerInstrument = useMemo(
+    () => applyBrokerProfile(baseInstrument, activeProfile),
+    [baseInstrument, activeProfile]
+  );
+  const instrument = useMemo(
+    () => applyStrategyProfile(brokerInstrument, activeStrategy),
+    [brokerInstrument, activeStrategy]
+  );
+
+  const {
+    currentBalance,
+    balanceHistory,
+    growthPlanStart,
+    tradePlan,
+    performanceStats,
+    journalStartingBalance,
+    extraMetricIds,
+    metrics,
+    lotClamp,
+    minimumCapital,
+    effectiveRiskPercent,
+    pricedInstrument,
+    conversionRate,
+    riskSettings,
+    planLayout,
+    tradingCosts,
+    handleLogTradeResult,
+    handleCorrectBalance,
+    handleUpdateGrowthPlanStart,
+    handleUpdateExtraMetrics,
+    handleUpdateConversionRate,
+    handleUpdateRiskSettings,
+    handleUpdatePlanLayout,
+    handleUpdateTradingCosts,
+  } = useDashboardState(instrument, accountSettings, journalEntries, saveJournalEntry);
+  const { allJournalEntries, allStartingBalance } = useAllJournalEntries(baseInstrument.id, journalEntries, journalStartingBalance);
+  const overallPerformanceStats = useMemo(
+    () => calculatePerformanceStats(allJournalEntries, allStartingBalance),
+    [allJournalEntries, allStartingBalance]
+  );
+
+  // Switching strategy also loads its risk % and R:R into the risk settings
+  const handleSelectStrategyProfile = (strategy: StrategyProfile | null) => {
+    handleSelectStrategy(strategy?.id ?? null);
+    const { strategySLPips, strategyTPPips } = applyStrategyProfile(brokerInstrument, strategy);
+    handleUpdateRiskSettings({
+      ...riskSettings,
+      riskPercent: strategy?.riskPercent ?? DEFAULT_RISK_SETTINGS.riskPercent,
+      rewardRatio: strategyTPPips / strategySLPips,
+    });
+  };
+
+  const handleDeleteStrategyProfile = (strategyId: string) => {
+    deleteStrategyProfile(strategyId);
+    if (activeStrategy?.id === strategyId) {
+      handleSelectStrategyProfile(null);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <h1 className="text-3xl font-bold text-primary font-headline tracking-tight">
+        {instrument.name} Dashboard
+      </h1>
+      <BrokerProfileSelector
+        instrument={instrument}
+        brokerProfiles={brokerProfiles}
+        activeProfile={activeProfile}
+        onSelectProfile={handleSelectProfile}
+      />
+      <RiskNote
+        instrument={pricedInstrument}
+        riskSettings={riskSettings}
+        minimumCapital={minimumCapital}
+        lotClamp={lotClamp}
+        effectiveRiskPercent={effectiveRiskPercent}
+        currency={accountSettings.currency}
+      />
+
+      <StrategyProfileSection
+        instrument={brokerInstrument}
+        strategyProfiles={strategyProfiles}
+        activeStrategy={activeStrategy}
+        onSelectStrategy={handleSelectStrategyProfile}
+        onSaveStrategy={saveStrategyProfile}
+        onDeleteStrategy={handleDeleteStrategyProfile}
+      />
+
+      <RiskSettingsSection
+        riskSettings={riskSettings}
+        onUpdateRiskSettings={handleUpdateRiskSettings}
+      />
+
+      <TradingCostsSection
+        instrument={instrument}
+        tradingCosts={tradingCosts}
+        currency={accountSettings.currency}
+        onUpdateTradingCosts={handleUpdateTradingCosts}
+      />
+
+      <MetricGrid metrics={metrics} />
+
+      <ProgressSection
+        currentBalance={currentBalance}
+        onCorrectBalance={handleCorrectBalance}
+        currency={accountSettings.currency}
+      />
+
+      <EquityCurveSection balanceHistory={balanceHistory} currency={accountSettings.currency} />
+
+      <PlanVsActualSection
+        planStart={growthPlanStart}
+        balanceHistory={balanceHistory}
+        currentBalance={currentBalance}
+        onUpdatePlanStart={handleUpdateGrowthPlanStart}
+        currency={accountSettings.currency}
+      />
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <TimezoneSelector />
+        {tradePlan ? (
+          <TradeManagementSection
+            tradePlan={tradePlan}
+            planLayout={planLayout}
+            onUpdatePlanLayout={handleUpdatePlanLayout}
+            onLogTradeResult={handleLogTradeResult}
+            currency={accountSettings.currency}
+            maxLot={instrument.maxLot.toFixed(instrument.lotPrecision)}
+            minLot={instrument.minLot.toFixed(instrument.lotPrecision)}
+            riskPercent={riskSettings.riskPercent}
+            maxTradesPerDay={activeStrategy?.maxTradesPerDay}
+          />
+        ) : (
+          <Skeleton className="h-[400px] w-full" />
+        )}
+      </div>
+
+      <TradeJournalSection
+        instrument={pricedInstrument}
+        journalEntries={journalEntries}
+        currency={accountSettings.currency}
+        onSaveEntry={saveJournalEntry}
+        onDeleteEntry={deleteJournalEntry}
+      />
+
+      <PerformanceAnalyticsSection
+        instrumentName={instrument.shortName}
+        instrumentStats={performanceStats}
+        overallStats={overallPerformanceStats}
+        selectedMetricIds={extraMetricIds}
+        onUpdateSelectedMetrics={handleUpdateExtraMetrics}
+        currency={accountSettings.currency}
+      />
+
+      <TradeCalculatorSection
+        currentBalance={currentBalance}
+        instrument={instrument}
+        conversionRate={conversionRate}
+        riskSettings={riskSettings}
+        accountSettings={accountSettings}
+        tradingCosts={tradingCosts}
+        onUpdateConversionRate={handleUpdateConversionRate}
+      />
+
+      <PositionRiskCalculatorSection
+        currentBalance={currentBalance}
+        instrument={pricedInstrument}
+        riskSettings={riskSettings}
+        currency={accountSettings.currency}
+      />
+
+      <CompoundingCalculatorSection currency={accountSettings.currency} />
+
+      <WithdrawalCalculatorSection currency={accountSettings.currency} />
+    </div>
+  );
+}
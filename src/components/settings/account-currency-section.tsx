@@ -0,0 +1,87 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAccountSettings } from "@/hooks/use-account-settings";
+import { ACCOUNT_CURRENCIES, formatMoney } from "@/lib/currency";
+
+const RATE_CURRENCIES = ACCOUNT_CURRENCIES.filter(({ code }) => code !== "USD");
+
+export function AccountCurrencySection() {
+  const { accountSettings, handleUpdateAccountSettings } = useAccountSettings();
+  const [currency, setCurrency] = useState<string>(accountSettings.currency);
+  const [rateInputs, setRateInputs] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setCurrency(accountSettings.currency);
+    setRateInputs(
+      Object.fromEntries(RATE_CURRENCIES.map(({ code }) => [code, accountSettings.usdRates[code]?.toString() ?? ""]))
+    );
+  }, [accountSettings]);
+
+  const handleSave = () => {
+    const usdRates: Record<string, number> = { USD: 1 };
+    for (const { code } of RATE_CURRENCIES) {
+      const rate = parseFloat(rateInputs[code] ?? "");
+      if (isNaN(rate) || rate <= 0) {
+        toast({ variant: "destructive", title: "Invalid Input", description: `Please enter a valid USD/${code} rate.` });
+        return;
+      }
+      usdRates[code] = rate;
+    }
+
+    handleUpdateAccountSettings({ currency, usdRates });
+    toast({
+      title: "Account Currency Saved",
+      description: `Figures are now shown in ${currency}, e.g. ${formatMoney(1234.5, currency)}.`,
+    });
+  };
+
+  return (
+    <Card className="shadow-lg mb-8">
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold text-primary">Account Currency</CardTitle>
+        <CardDescription>Pip values are converted from USD into your account currency using these rates.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="accountCurrencySelect" className="text-foreground/80">Account Currency</Label>
+          <Select value={currency} onValueChange={setCurrency}>
+            <SelectTrigger id="accountCurrencySelect">
+              <SelectValue placeholder="Select currency" />
+            </SelectTrigger>
+            <SelectContent>
+              {ACCOUNT_CURRENCIES.map(({ code, name }) => (
+                <SelectItem key={code} value={code}>{code} – {name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {RATE_CURRENCIES.map(({ code }) => (
+            <div key={code}>
+              <Label htmlFor={`usdRate-${code}`} className="text-foreground/80">1 USD = ? {code}</Label>
+              <Input
+                id={`usdRate-${code}`}
+                type="number"
+                step="any"
+                value={rateInputs[code] ?? ""}
+                onChange={(e) => setRateInputs({ ...rateInputs, [code]: e.target.value })}
+                disabled={code === "USC"}
+              />
+            </div>
+          ))}
+        </div>
+        <Button onClick={handleSave} className="w-full bg-accent hover:bg-accent/90 text-accent-foreground">
+          Save Account Currency
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
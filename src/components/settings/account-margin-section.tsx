@@ -0,0 +1,64 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useAccountSettings } from "@/hooks/use-account-settings";
+
+export function AccountMarginSection() {
+  const { accountSettings, handleUpdateAccountSettings } = useAccountSettings();
+  const [leverageInput, setLeverageInput] = useState<string>(accountSettings.leverage.toString());
+  const [stopOutInput, setStopOutInput] = useState<string>(accountSettings.stopOutLevel.toString());
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setLeverageInput(accountSettings.leverage.toString());
+    setStopOutInput(accountSettings.stopOutLevel.toString());
+  }, [accountSettings]);
+
+  const handleSave = () => {
+    const leverage = parseFloat(leverageInput);
+    const stopOutLevel = parseFloat(stopOutInput);
+    if (isNaN(leverage) || leverage < 1) {
+      toast({ variant: "destructive", title: "Invalid Input", description: "Please enter a leverage of 1 or more (e.g., 500 for 1:500)." });
+      return;
+    }
+    if (isNaN(stopOutLevel) || stopOutLevel < 0) {
+      toast({ variant: "destructive", title: "Invalid Input", description: "Please enter a valid stop-out level %." });
+      return;
+    }
+
+    handleUpdateAccountSettings({ leverage, stopOutLevel });
+    toast({
+      title: "Margin Settings Saved",
+      description: `Margin is now calculated at 1:${leverage} with stop-out at ${stopOutLevel}%.`,
+    });
+  };
+
+  return (
+    <Card className="shadow-lg mb-8">
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold text-primary">Leverage &amp; Margin</CardTitle>
+        <CardDescription>Used by the trade calculator to check a position can be opened and where it would be stopped out.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="accountLeverage" className="text-foreground/80">Leverage (1:x)</Label>
+            <Input id="accountLeverage" type="number" step="any" placeholder="e.g., 500" value={leverageInput} onChange={(e) => setLeverageInput(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="accountStopOut" className="text-foreground/80">Stop-Out Level (%)</Label>
+            <Input id="accountStopOut" type="number" step="any" placeholder="e.g., 50" value={stopOutInput} onChange={(e) => setStopOutInput(e.target.value)} />
+          </div>
+        </div>
+        <Button onClick={handleSave} className="w-full bg-accent hover:bg-accent/90 text-accent-foreground">
+          Save Margin Settings
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,323 @@
+"use client";
+
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+import { Download, Upload, Pencil, Trash2, Plus } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useBrokerProfiles } from "@/hooks/use-broker-profiles";
+import { useCustomInstruments } from "@/hooks/use-custom-instruments";
+import { getValuePerPipPerLot, listInstruments } from "@/lib/instruments";
+import { getBrokerProfileId, parseBrokerProfiles, serializeBrokerProfiles } from "@/lib/broker-profiles";
+import { optionalDigits, optionalPositiveNumber } from "@/lib/form-schemas";
+import type { BrokerProfile, InstrumentSpec, InstrumentSpecOverrides } from "@/lib/types";
+
+const overrideSchema = z.object({
+  instrument: z.string({ required_error: "Please select an instrument." }).min(1, { message: "Please select an instrument." }),
+  contractSize: optionalPositiveNumber("Contract size"),
+  pipToPriceFactor: optionalPositiveNumber("Pip size"),
+  valuePerPipPerLot: optionalPositiveNumber("Value per pip"),
+  minLot: optionalPositiveNumber("Min lot"),
+  maxLot: optionalPositiveNumber("Max lot"),
+  lotStep: optionalPositiveNumber("Lot step"),
+  pricePrecision: optionalDigits("Digits"),
+}).refine((values) => values.minLot === "" || values.maxLot === "" || Number(values.maxLot) >= Number(values.minLot), {
+  message: "Max lot must be at least the min lot.",
+  path: ["maxLot"],
+}).refine(({ instrument, ...fields }) => Object.values(fields).some((value) => value !== ""), {
+  message: "Override at least one field.",
+  path: ["instrument"],
+});
+
+type OverrideFormValues = z.infer<typeof overrideSchema>;
+type OverrideField = Exclude<keyof OverrideFormValues, "instrument">;
+
+const EMPTY_OVERRIDE_VALUES: OverrideFormValues = {
+  instrument: "",
+  contractSize: "",
+  pipToPriceFactor: "",
+  valuePerPipPerLot: "",
+  minLot: "",
+  maxLot: "",
+  lotStep: "",
+  pricePrecision: "",
+};
+
+const OVERRIDE_FIELDS: { name: OverrideField; label: string; baseValue: (instrument: InstrumentSpec) => number | undefined }[] = [
+  { name: "contractSize", label: "Contract Size", baseValue: (instrument) => instrument.contractSize },
+  { name: "pipToPriceFactor", label: "Pip Size", baseValue: (instrument) => instrument.pipToPriceFactor },
+  { name: "valuePerPipPerLot", label: "Value per Pip", baseValue: (instrument) => getValuePerPipPerLot(instrument) },
+  { name: "minLot", label: "Min Lot", baseValue: (instrument) => instrument.minLot },
+  { name: "maxLot", label: "Max Lot", baseValue: (instrument) => instrument.maxLot },
+  { name: "lotStep", label: "Lot Step", baseValue: (instrument) => instrument.lotStep },
+  { name: "pricePrecision", label: "Digits", baseValue: (instrument) => instrument.pricePrecision },
+];
+
+const toOverrides = (values: OverrideFormValues): InstrumentSpecOverrides => {
+  const overrides: InstrumentSpecOverrides = {};
+  OVERRIDE_FIELDS.forEach(({ name }) => {
+    if (values[name] !== "") {
+      overrides[name] = Number(values[name]);
+    }
+  });
+  return overrides;
+};
+
+const describeOverrides = (overrides: InstrumentSpecOverrides): string =>
+  OVERRIDE_FIELDS
+    .filter(({ name }) => overrides[name] !== undefined)
+    .map(({ name, label }) => `${label}: ${overrides[name]}`)
+    .join(", ");
+
+export function BrokerProfilesSection() {
+  const { toast } = useToast();
+  const { brokerProfiles, saveBrokerProfile, deleteBrokerProfile, importBrokerProfiles } = useBrokerProfiles();
+  const { customInstruments } = useCustomInstruments();
+  const instruments = [...listInstruments(), ...customInstruments];
+  const [newProfileName, setNewProfileName] = React.useState<string>("");
+  const [selectedProfileId, setSelectedProfileId] = React.useState<string | null>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const selectedProfile = brokerProfiles.find((profile) => profile.id === selectedProfileId) ?? null;
+
+  const form = useForm<OverrideFormValues>({
+    resolver: zodResolver(overrideSchema),
+    defaultValues: EMPTY_OVERRIDE_VALUES,
+  });
+  const selectedInstrument = instruments.find((instrument) => instrument.id === form.watch("instrument"));
+
+  const handleAddProfile = () => {
+    const name = newProfileName.trim();
+    if (name === "") {
+      toast({ variant: "destructive", title: "Invalid Input", description: "Please enter a profile name." });
+      return;
+    }
+    const id = getBrokerProfileId(name);
+    if (brokerProfiles.some((profile) => profile.id === id)) {
+      toast({ variant: "destructive", title: "Invalid Input", description: `A profile named "${name}" already exists.` });
+      return;
+    }
+    saveBrokerProfile({ id, name, overrides: {} });
+    setSelectedProfileId(id);
+    setNewProfileName("");
+  };
+
+  const handleDeleteProfile = (profile: BrokerProfile) => {
+    deleteBrokerProfile(profile.id);
+    setSelectedProfileId(null);
+    toast({ title: "Profile Deleted", description: `${profile.name} was removed.` });
+  };
+
+  function onSubmitOverride(values: OverrideFormValues) {
+    if (!selectedProfile) {
+      return;
+    }
+    saveBrokerProfile({
+      ...selectedProfile,
+      overrides: { ...selectedProfile.overrides, [values.instrument]: toOverrides(values) },
+    });
+    const instrumentName = instruments.find((instrument) => instrument.id === values.instrument)?.name ?? values.instrument;
+    toast({ title: "Override Saved", description: `${selectedProfile.name} now overrides ${instrumentName}.` });
+    form.reset(EMPTY_OVERRIDE_VALUES);
+  }
+
+  const handleEditOverride = (instrumentType: string, overrides: InstrumentSpecOverrides) => {
+    form.reset({
+      ...EMPTY_OVERRIDE_VALUES,
+      instrument: instrumentType,
+      ...Object.fromEntries(
+        Object.entries(overrides).map(([name, value]) => [name, value === undefined ? "" : value.toString()])
+      ),
+    });
+  };
+
+  const handleRemoveOverride = (instrumentType: string) => {
+    if (!selectedProfile) {
+      return;
+    }
+    const { [instrumentType]: _removed, ...remaining } = selectedProfile.overrides;
+    saveBrokerProfile({ ...selectedProfile, overrides: remaining });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeBrokerProfiles(brokerProfiles)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "broker-profiles.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    file.text().then((text) => {
+      const imported = parseBrokerProfiles(text);
+      importBrokerProfiles(imported);
+      toast({ title: "Profiles Imported", description: `Imported ${imported.length} broker profile(s).` });
+    }).catch((error: Error) => {
+      toast({ variant: "destructive", title: "Import Failed", description: error.message });
+    });
+  };
+
+  return (
+    <Card className="shadow-lg mb-8">
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold text-primary">Broker Profiles</CardTitle>
+        <CardDescription>Override contract specs per broker, then pick the active profile on each dashboard.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col md:flex-row gap-2">
+          <Input
+            placeholder="New profile name, e.g., Exness"
+            value={newProfileName}
+            onChange={(e) => setNewProfileName(e.target.value)}
+            className="flex-grow"
+          />
+          <Button onClick={handleAddProfile} className="bg-accent hover:bg-accent/90 text-accent-foreground">
+            <Plus className="mr-2 h-4 w-4" /> Add Profile
+          </Button>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" /> Import JSON
+          </Button>
+          <Button variant="outline" onClick={handleExport} disabled={brokerProfiles.length === 0}>
+            <Download className="mr-2 h-4 w-4" /> Export JSON
+          </Button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+
+        {brokerProfiles.length > 0 ? (
+          <div className="space-y-2">
+            <Label htmlFor="brokerProfileEdit" className="text-foreground/80">Profile to edit</Label>
+            <div className="flex space-x-2">
+              <Select value={selectedProfileId ?? undefined} onValueChange={setSelectedProfileId}>
+                <SelectTrigger id="brokerProfileEdit" className="flex-grow">
+                  <SelectValue placeholder="Select a profile" />
+                </SelectTrigger>
+                <SelectContent>
+                  {brokerProfiles.map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedProfile && (
+                <Button variant="outline" onClick={() => handleDeleteProfile(selectedProfile)} aria-label={`Delete ${selectedProfile.name}`}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center">No broker profiles yet.</p>
+        )}
+
+        {selectedProfile && (
+          <>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmitOverride)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="instrument"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-foreground/80">Instrument</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select instrument" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {instruments.map((instrument) => (
+                            <SelectItem key={instrument.id} value={instrument.id}>{instrument.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                  {OVERRIDE_FIELDS.map(({ name, label, baseValue }) => (
+                    <FormField
+                      key={name}
+                      control={form.control}
+                      name={name}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-foreground/80">{label}</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              step="any"
+                              placeholder={selectedInstrument ? `Default: ${baseValue(selectedInstrument) ?? "-"}` : "Default"}
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                </div>
+                <Button type="submit" className="w-full bg-accent hover:bg-accent/90 text-accent-foreground">
+                  Save Override
+                </Button>
+              </form>
+            </Form>
+
+            {Object.keys(selectedProfile.overrides).length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Instrument</TableHead>
+                    <TableHead>Overrides</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {Object.entries(selectedProfile.overrides).map(([instrumentType, overrides]) => (
+                    <TableRow key={instrumentType}>
+                      <TableCell className="font-medium">
+                        {instruments.find((instrument) => instrument.id === instrumentType)?.name ?? instrumentType}
+                      </TableCell>
+                      <TableCell>{describeOverrides(overrides)}</TableCell>
+                      <TableCell className="text-right space-x-1">
+                        <Button variant="ghost" size="icon" onClick={() => handleEditOverride(instrumentType, overrides)} aria-label={`Edit ${instrumentType} override`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleRemoveOverride(instrumentType)} aria-label={`Remove ${instrumentType} override`}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+import { Pencil, Trash2, LayoutDashboard } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useCustomInstruments } from "@/hooks/use-custom-instruments";
+import { PRICING_CURRENCY, getCustomInstrumentId, getDashboardHref, getMinimumCapitalForRisk } from "@/lib/instruments";
+import { getStepPrecision, optionalDigits, optionalPositiveNumber, positiveNumber } from "@/lib/form-schemas";
+import type { InstrumentSpec } from "@/lib/types";
+
+const formSchema = z.object({
+  symbol: z.string().trim().min(1, { message: "Symbol is required." }).max(20, { message: "Symbol must be 20 characters or fewer." }),
+  name: z.string().trim().max(50, { message: "Name must be 50 characters or fewer." }),
+  digits: optionalDigits("Digits").refine((value) => value !== "", { message: "Digits is required." }),
+  pipSize: positiveNumber("Pip size"),
+  contractSize: optionalPositiveNumber("Contract size"),
+  valuePerPip: optionalPositiveNumber("Value per pip"),
+  minLot: positiveNumber("Min lot"),
+  maxLot: positiveNumber("Max lot"),
+  lotStep: positiveNumber("Lot step"),
+  strategySLPips: positiveNumber("Default SL"),
+  strategyTPPips: positiveNumber("Default TP"),
+}).refine((values) => Number(values.maxLot) >= Number(values.minLot), {
+  message: "Max lot must be at least the min lot.",
+  path: ["maxLot"],
+}).refine((values) => values.contractSize !== "" || values.valuePerPip !== "", {
+  message: "Enter a value per pip or a contract size.",
+  path: ["valuePerPip"],
+});
+
+type CustomInstrumentFormValues = z.infer<typeof formSchema>;
+
+const EMPTY_FORM_VALUES: CustomInstrumentFormValues = {
+  symbol: "",
+  name: "",
+  digits: "2",
+  pipSize: "",
+  contractSize: "",
+  valuePerPip: "",
+  minLot: "0.01",
+  maxLot: "100",
+  lotStep: "0.01",
+  strategySLPips: "100",
+  strategyTPPips: "200",
+};
+
+const buildCustomInstrumentSpec = (values: CustomInstrumentFormValues): InstrumentSpec => {
+  const symbol = values.symbol.toUpperCase();
+  const spec: InstrumentSpec = {
+    id: getCustomInstrumentId(symbol),
+    name: values.name || symbol,
+    shortName: symbol,
+    symbol,
+    category: "custom",
+    quoteCurrency: PRICING_CURRENCY,
+    minLot: Number(values.minLot),
+    maxLot: Number(values.maxLot),
+    lotStep: Number(values.lotStep),
+    lotPrecision: getStepPrecision(Number(values.lotStep)),
+    pipToPriceFactor: Number(values.pipSize),
+    valuePerPipPerLot: values.valuePerPip !== "" ? Number(values.valuePerPip) : undefined,
+    contractSize: values.contractSize !== "" ? Number(values.contractSize) : undefined,
+    strategySLPips: Number(values.strategySLPips),
+    strategyTPPips: Number(values.strategyTPPips),
+    pricePrecision: Number(values.digits),
+    initialBalanceDefault: 0,
+  };
+  // Start the dashboard at the capital where the minimum lot risks 1%
+  return { ...spec, initialBalanceDefault: Math.ceil(getMinimumCapitalForRisk(spec)) };
+};
+
+const toFormValues = (instrument: InstrumentSpec): CustomInstrumentFormValues => ({
+  symbol: instrument.symbol,
+  name: instrument.name === instrument.symbol ? "" : instrument.name,
+  digits: instrument.pricePrecision.toString(),
+  pipSize: instrument.pipToPriceFactor.toString(),
+  contractSize: instrument.contractSize?.toString() ?? "",
+  valuePerPip: instrument.valuePerPipPerLot?.toString() ?? "",
+  minLot: instrument.minLot.toString(),
+  maxLot: instrument.maxLot.toString(),
+  lotStep: instrument.lotStep.toString(),
+  strategySLPips: instrument.strategySLPips.toString(),
+  strategyTPPips: instrument.strategyTPPips.toString(),
+});
+
+const NUMBER_FIELDS: { name: Exclude<keyof CustomInstrumentFormValues, "symbol" | "name">; label: string; placeholder: string; description?: string }[] = [
+  { name: "digits", label: "Digits", placeholder: "e.g., 2", description: "Price decimals quoted by your broker." },
+  { name: "pipSize", label: "Pip Size", placeholder: "e.g., 0.1", description: "Price move of 1 pip." },
+  { name: "valuePerPip", label: `Value per Pip (${PRICING_CURRENCY})`, placeholder: "e.g., 10", description: "Per 1 lot. Leave empty to use the contract size." },
+  { name: "contractSize", label: "Contract Size", placeholder: "e.g., 100", description: "Units per lot." },
+  { name: "minLot", label: "Min Lot", placeholder: "e.g., 0.01" },
+  { name: "maxLot", label: "Max Lot", placeholder: "e.g., 100" },
+  { name: "lotStep", label: "Lot Step", placeholder: "e.g., 0.01" },
+  { name: "strategySLPips", label: "Default SL (pips)", placeholder: "e.g., 100" },
+  { name: "strategyTPPips", label: "Default TP (pips)", placeholder: "e.g., 200" },
+];
+
+export function CustomInstrumentsSection() {
+  const { toast } = useToast();
+  const { customInstruments, saveCustomInstrument, deleteCustomInstrument } = useCustomInstruments();
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+
+  const form = useForm<CustomInstrumentFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: EMPTY_FORM_VALUES,
+  });
+
+  function onSubmit(values: CustomInstrumentFormValues) {
+    const instrument = buildCustomInstrumentSpec(values);
+    // Ids come from the symbol, so a matching symbol would overwrite another instrument
+    if (customInstruments.some(existing => existing.id === instrument.id && existing.id !== editingId)) {
+      form.setError("symbol", { message: "An instrument with this symbol already exists." });
+      return;
+    }
+    saveCustomInstrument(instrument, editingId ?? instrument.id);
+    toast({
+      title: "Instrument Saved",
+      description: `${instrument.symbol} is now available on the login screen.`,
+    });
+    setEditingId(null);
+    form.reset(EMPTY_FORM_VALUES);
+  }
+
+  const handleEdit = (instrument: InstrumentSpec) => {
+    setEditingId(instrument.id);
+    form.reset(toFormValues(instrument));
+  };
+
+  const handleDelete = (instrument: InstrumentSpec) => {
+    deleteCustomInstrument(instrument.id);
+    if (editingId === instrument.id) {
+      setEditingId(null);
+      form.reset(EMPTY_FORM_VALUES);
+    }
+    toast({
+      title: "Instrument Deleted",
+      description: `${instrument.symbol} was removed.`,
+    });
+  };
+
+  return (
+    <Card className="shadow-lg mb-8">
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold text-primary">Custom Instruments</CardTitle>
+        <CardDescription>Define a symbol with your broker&apos;s contract specs. It is stored in this browser only.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6 mb-8">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="symbol"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-foreground/80">Symbol</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., XAGUSD" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-foreground/80">Display Name (optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Silver" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {NUMBER_FIELDS.map(({ name, label, placeholder, description }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-foreground/80">{label}</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="any" placeholder={placeholder} {...field} />
+                      </FormControl>
+                      {description && <FormDescription>{description}</FormDescription>}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+            <div className="flex space-x-2">
+              <Button type="submit" className="flex-grow bg-accent hover:bg-accent/90 text-accent-foreground">
+                {editingId ? "Update Instrument" : "Save Instrument"}
+              </Button>
+              {editingId && (
+                <Button type="button" variant="outline" onClick={() => { setEditingId(null); form.reset(EMPTY_FORM_VALUES); }}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </form>
+        </Form>
+
+        {customInstruments.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Symbol</TableHead>
+                <TableHead>Pip Size</TableHead>
+                <TableHead>Lots (min / max / step)</TableHead>
+                <TableHead>SL / TP</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {customInstruments.map((instrument) => (
+                <TableRow key={instrument.id}>
+                  <TableCell className="font-medium">{instrument.name}</TableCell>
+                  <TableCell>{instrument.pipToPriceFactor}</TableCell>
+                  <TableCell>{instrument.minLot} / {instrument.maxLot} / {instrument.lotStep}</TableCell>
+                  <TableCell>{instrument.strategySLPips} / {instrument.strategyTPPips}</TableCell>
+                  <TableCell className="text-right space-x-1">
+                    <Link href={getDashboardHref(instrument)}>
+                      <Button variant="ghost" size="icon" aria-label={`Open ${instrument.symbol} dashboard`}>
+                        <LayoutDashboard className="h-4 w-4" />
+                      </Button>
+                    </Link>
+                    <Button variant="ghost" size="icon" onClick={() => handleEdit(instrument)} aria-label={`Edit ${instrument.symbol}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(instrument)} aria-label={`Delete ${instrument.symbol}`}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center">No custom instruments yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { getLocalStorageItem, setLocalStorageItem } from '@/lib/utils';
+import { ACCOUNT_SETTINGS_STORAGE_KEY, DEFAULT_ACCOUNT_SETTINGS } from '@/lib/currency';
+import type { AccountSettings } from '@/lib/types';
+
+// Keeps rates for currencies and settings added since the settings were saved
+const loadAccountSettings = (): AccountSettings => {
+  const stored = getLocalStorageItem<AccountSettings>(ACCOUNT_SETTINGS_STORAGE_KEY, DEFAULT_ACCOUNT_SETTINGS);
+  return {
+    ...DEFAULT_ACCOUNT_SETTINGS,
+    ...stored,
+    usdRates: { ...DEFAULT_ACCOUNT_SETTINGS.usdRates, ...stored.usdRates },
+  };
+};
+
+export function useAccountSettings() {
+  const [accountSettings, setAccountSettings] = useState<AccountSettings>(DEFAULT_ACCOUNT_SETTINGS);
+
+  useEffect(() => {
+    setAccountSettings(loadAccountSettings());
+  }, []);
+
+  // Merges into the saved settings rather than this hook's copy, so cards saving different fields don't undo each other
+  const handleUpdateAccountSettings = (changes: Partial<AccountSettings>) => {
+    const newSettings = { ...loadAccountSettings(), ...changes };
+    setAccountSettings(newSettings);
+    setLocalStorageItem(ACCOUNT_SETTINGS_STORAGE_KEY, newSettings);
+  };
+
+  return {
+    accountSettings,
+    handleUpdateAccountSettings,
+  };
+}
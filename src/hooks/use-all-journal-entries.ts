@@ -0,0 +1,40 @@
+"use client";
+
+import { useState, useEffect, useMemo } from 'react';
+import { getLocalStorageItem } from '@/lib/utils';
+import { listInstruments } from '@/lib/instruments';
+import { getJournalStorageKey, getStoredBaseBalance, sortJournalEntries } from '@/lib/journal';
+import type { InstrumentType, JournalEntry } from '@/lib/types';
+import { useCustomInstruments } from './use-custom-instruments';
+
+// Journals of every instrument, with the current one's live entries, for account-wide statistics
+export function useAllJournalEntries(instrumentType: InstrumentType, journalEntries: JournalEntry[], startingBalance: number) {
+  const { customInstruments } = useCustomInstruments();
+  const [otherEntries, setOtherEntries] = useState<JournalEntry[]>([]);
+  const [otherStartingBalance, setOtherStartingBalance] = useState<number>(0);
+
+  useEffect(() => {
+    let entries: JournalEntry[] = [];
+    let balance = 0;
+    [...listInstruments(), ...customInstruments]
+      .filter(spec => spec.id !== instrumentType)
+      .forEach(spec => {
+        const instrumentEntries = getLocalStorageItem<JournalEntry[]>(getJournalStorageKey(spec.id), []);
+        if (instrumentEntries.length === 0) return;
+        entries = [...entries, ...instrumentEntries];
+        balance += getStoredBaseBalance(spec.id, spec.initialBalanceDefault);
+      });
+    setOtherEntries(entries);
+    setOtherStartingBalance(balance);
+  }, [instrumentType, customInstruments]);
+
+  const allJournalEntries = useMemo(
+    () => sortJournalEntries([...journalEntries, ...otherEntries]),
+    [journalEntries, otherEntries]
+  );
+
+  return {
+    allJournalEntries,
+    allStartingBalance: startingBalance + otherStartingBalance,
+  };
+}
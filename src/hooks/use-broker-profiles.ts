@@ -0,0 +1,61 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { getLocalStorageItem, setLocalStorageItem } from '@/lib/utils';
+import { BROKER_PROFILES_STORAGE_KEY } from '@/lib/broker-profiles';
+import type { BrokerProfile, InstrumentType } from '@/lib/types';
+
+// Profiles are shared across dashboards; the active profile is chosen per instrument
+export function useBrokerProfiles(instrumentType?: InstrumentType) {
+  const [brokerProfiles, setBrokerProfiles] = useState<BrokerProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+
+  const activeProfileKey = `${instrumentType}_brokerProfileId`;
+
+  useEffect(() => {
+    setBrokerProfiles(getLocalStorageItem<BrokerProfile[]>(BROKER_PROFILES_STORAGE_KEY, []));
+    if (instrumentType) {
+      setActiveProfileId(getLocalStorageItem<string | null>(activeProfileKey, null));
+    }
+  }, [instrumentType]);
+
+  const persist = (updated: BrokerProfile[]) => {
+    setBrokerProfiles(updated);
+    setLocalStorageItem(BROKER_PROFILES_STORAGE_KEY, updated);
+  };
+
+  const saveBrokerProfile = (profile: BrokerProfile) => {
+    const exists = brokerProfiles.some(existing => existing.id === profile.id);
+    persist(
+      exists
+        ? brokerProfiles.map(existing => (existing.id === profile.id ? profile : existing))
+        : [...brokerProfiles, profile]
+    );
+  };
+
+  const deleteBrokerProfile = (profileId: string) => {
+    persist(brokerProfiles.filter(existing => existing.id !== profileId));
+  };
+
+  // Imported profiles replace existing ones with the same id
+  const importBrokerProfiles = (imported: BrokerProfile[]) => {
+    const importedIds = new Set(imported.map(profile => profile.id));
+    persist([...brokerProfiles.filter(existing => !importedIds.has(existing.id)), ...imported]);
+  };
+
+  const handleSelectProfile = (profileId: string | null) => {
+    setActiveProfileId(profileId);
+    setLocalStorageItem(activeProfileKey, profileId);
+  };
+
+  const activeProfile = brokerProfiles.find(profile => profile.id === activeProfileId) ?? null;
+
+  return {
+    brokerProfiles,
+    activeProfile,
+    saveBrokerProfile,
+    deleteBrokerProfile,
+    importBrokerProfiles,
+    handleSelectProfile,
+  };
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { getLocalStorageItem, setLocalStorageItem } from '@/lib/utils';
+import { CUSTOM_INSTRUMENTS_STORAGE_KEY } from '@/lib/instruments';
+import type { InstrumentSpec, InstrumentType } from '@/lib/types';
+
+export function useCustomInstruments() {
+  const [customInstruments, setCustomInstruments] = useState<InstrumentSpec[]>([]);
+  const [isLoaded, setIsLoaded] = useState<boolean>(false);
+
+  useEffect(() => {
+    setCustomInstruments(getLocalStorageItem<InstrumentSpec[]>(CUSTOM_INSTRUMENTS_STORAGE_KEY, []));
+    setIsLoaded(true);
+  }, []);
+
+  const persist = (updated: InstrumentSpec[]) => {
+    setCustomInstruments(updated);
+    setLocalStorageItem(CUSTOM_INSTRUMENTS_STORAGE_KEY, updated);
+  };
+
+  // Replaces the entry with previousId (defaults to the spec's own id), otherwise appends.
+  // Callers check the spec's id is not taken by another entry first.
+  const saveCustomInstrument = (instrument: InstrumentSpec, previousId: InstrumentType = instrument.id) => {
+    const replaced = customInstruments.some(existing => existing.id === previousId);
+    persist(replaced
+      ? customInstruments.map(existing => (existing.id === previousId ? instrument : existing))
+      : [...customInstruments, instrument]);
+  };
+
+  const deleteCustomInstrument = (instrumentType: InstrumentType) => {
+    persist(customInstruments.filter(existing => existing.id !== instrumentType));
+  };
+
+  const getCustomInstrument = (instrumentType: InstrumentType): InstrumentSpec | undefined =>
+    customInstruments.find(existing => existing.id === instrumentType);
+
+  return {
+    customInstruments,
+    isLoaded,
+    saveCustomInstrument,
+    deleteCustomInstrument,
+    getCustomInstrument,
+  };
+}
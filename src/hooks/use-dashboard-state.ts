@@ -1,77 +1,98 @@
 
 "use client";
 
-import { useState, useEffect, useCallback } from 'react';
-import { getLocalStorageItem, setLocalStorageItem, calculateTradeGroupsLogic } from '@/lib/utils';
-import type { TradePlan, Metric, InstrumentType } from '@/lib/types';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { getLocalStorageItem, setLocalStorageItem, calculateTradeGroupsLogic, calculateRecommendedLots, getDefaultRiskSettings, getLossPerLot, getProfitPerLot, getLotClamp, getLotClampWarning, getOverRiskWarning, DEFAULT_PLAN_LAYOUT, DEFAULT_TRADING_COSTS } from '@/lib/utils';
+import { applyAccountCurrency, applyQuoteConversion, applyTradingCosts, getMinimumCapitalForRisk } from '@/lib/instruments';
+import { getDefaultGrowthPlanStart } from '@/lib/growth-plan';
+import { calculatePerformanceStats, getPerformanceMetric, getPerformanceMetricLabel } from '@/lib/performance';
+import { createJournalEntryId, getJournalNetProfit, getStoredBaseBalance, getTodaysPlanTradeEntries, getTradeOutcomeLabel } from '@/lib/journal';
+import type { TradePlan, Metric, InstrumentSpec, RiskSettings, AccountSettings, PlanLayout, TradingCosts, JournalEntry, TradeDetail, TradeDirection, TradeOutcome, BalanceHistoryEntry, BalanceChangeReason, GrowthPlanStart, PerformanceMetricId } from '@/lib/types';
 import { useToast } from './use-toast';
 
 const TARGET_BALANCE = 1000000;
 
-// Gold Specific Constants
-const MIN_LOT_SIZE_GOLD = 0.01;
-const MAX_LOT_SIZE_GOLD = 5.00; // User specified max
-const GOLD_LOT_PRECISION = 2;
-const GOLD_STRATEGY_SL_PIPS = 100;
-const GOLD_STRATEGY_TP_PIPS = 200;
-const GOLD_VALUE_PER_PIP_PER_STANDARD_LOT = 10; // $10 profit/loss per pip for 1 standard lot of Gold
-
-// Volatility 75 Specific Constants
-const MIN_LOT_SIZE_V75 = 0.001;
-const MAX_LOT_SIZE_V75 = 5.00;
-const V75_LOT_PRECISION = 3;
-const V75_STRATEGY_SL_PIPS = 1000; // Risking 1% over these pips
-const V75_STRATEGY_TP_PIPS = 2000; // Aiming for 2% gain with these pips
-const V75_LOT_CALC_BASE_PIPS_FOR_1_PERCENT_RISK = 500; // Lot size based on 500 pips = 1% risk
-const V75_VALUE_PER_PIP_PER_FULL_LOT = 1; // V75: 1 pip = $1 profit/loss per lot
-
-
-export function useDashboardState(instrumentType: InstrumentType, initialBalanceDefault: number) {
-  const [currentBalance, setCurrentBalance] = useState<number>(initialBalanceDefault);
-  const [tradesToday, setTradesToday] = useState<number>(0);
-  const [lastTradeDate, setLastTradeDate] = useState<string>('');
+export function useDashboardState(
+  instrument: InstrumentSpec,
+  accountSettings: AccountSettings,
+  journalEntries: JournalEntry[],
+  onSaveJournalEntry: (entry: JournalEntry) => void
+) {
+  const { id: instrumentType, initialBalanceDefault } = instrument;
+  // Starting capital plus balance corrections; the balance adds the journal's net P/L on top
+  const [baseBalance, setBaseBalance] = useState<number>(initialBalanceDefault);
+  const [balanceHistory, setBalanceHistory] = useState<BalanceHistoryEntry[]>([]);
+  const [historyLoaded, setHistoryLoaded] = useState(false);
+  const [savedGrowthPlanStart, setSavedGrowthPlanStart] = useState<GrowthPlanStart | null>(null);
+  const [extraMetricIds, setExtraMetricIds] = useState<PerformanceMetricId[]>([]);
+  // Set by the handlers below; balance changes from the journal fall back to 'journal'
+  const pendingReasonRef = useRef<BalanceChangeReason>('journal');
   const [tradePlan, setTradePlan] = useState<TradePlan | null>(null);
+  const [conversionRate, setConversionRate] = useState<number>(instrument.defaultConversionRate ?? 1);
+  const [riskSettings, setRiskSettings] = useState<RiskSettings>(getDefaultRiskSettings(instrument));
+  const [planLayout, setPlanLayout] = useState<PlanLayout>(DEFAULT_PLAN_LAYOUT);
+  const [tradingCosts, setTradingCosts] = useState<TradingCosts>(DEFAULT_TRADING_COSTS);
   const { toast } = useToast();
 
   const getLsKey = (baseKey: string) => `${instrumentType}_${baseKey}`;
 
   useEffect(() => {
-    setCurrentBalance(getLocalStorageItem<number>(getLsKey('currentBalance'), initialBalanceDefault));
-    setTradesToday(getLocalStorageItem<number>(getLsKey('tradesToday'), 0));
-    setLastTradeDate(getLocalStorageItem<string>(getLsKey('lastTradeDate'), new Date().toDateString()));
+    // Saved straight away so a migrated base is never derived from currentBalance again
+    const storedBase = getStoredBaseBalance(instrumentType, initialBalanceDefault);
+    setLocalStorageItem(getLsKey('baseBalance'), storedBase);
+    setBaseBalance(storedBase);
+    setBalanceHistory(getLocalStorageItem<BalanceHistoryEntry[]>(getLsKey('balanceHistory'), []));
+    setHistoryLoaded(true);
+    setSavedGrowthPlanStart(getLocalStorageItem<GrowthPlanStart | null>(getLsKey('growthPlanStart'), null));
+    setExtraMetricIds(getLocalStorageItem<PerformanceMetricId[]>(getLsKey('extraMetrics'), []));
+    setConversionRate(getLocalStorageItem<number>(getLsKey('conversionRate'), instrument.defaultConversionRate ?? 1));
+    setRiskSettings(getLocalStorageItem<RiskSettings>(getLsKey('riskSettings'), getDefaultRiskSettings(instrument)));
+    setPlanLayout(getLocalStorageItem<PlanLayout>(getLsKey('planLayout'), DEFAULT_PLAN_LAYOUT));
+    setTradingCosts(getLocalStorageItem<TradingCosts>(getLsKey('tradingCosts'), DEFAULT_TRADING_COSTS));
   }, [instrumentType, initialBalanceDefault]);
 
-  useEffect(() => {
-    const today = new Date().toDateString();
-    if (today !== lastTradeDate) {
-      setTradesToday(0);
-      setLastTradeDate(today);
-      setLocalStorageItem(getLsKey('tradesToday'), 0);
-      setLocalStorageItem(getLsKey('lastTradeDate'), today);
-    }
-  }, [lastTradeDate, instrumentType]);
+  const journalNetProfit = useMemo(() => getJournalNetProfit(journalEntries), [journalEntries]);
+  const currentBalance = baseBalance + journalNetProfit;
+
+  // The journal's trades replayed from the balance they started on
+  const journalStartingBalance = currentBalance - journalNetProfit;
+  const performanceStats = useMemo(
+    () => calculatePerformanceStats(journalEntries, journalStartingBalance),
+    [journalEntries, journalStartingBalance]
+  );
 
+  const growthPlanStart = useMemo(
+    () => savedGrowthPlanStart ?? getDefaultGrowthPlanStart(balanceHistory, currentBalance),
+    [savedGrowthPlanStart, balanceHistory, currentBalance]
+  );
+
+  // Only plan results journaled today count towards today's plan
+  const todaysResults = useMemo(() => getTodaysPlanTradeEntries(journalEntries), [journalEntries]);
+  const tradesToday = todaysResults.length;
+
+  // Spec with pip values and trading costs in the account currency, used for all sizing below
+  const pricedInstrument = useMemo(
+    () => applyTradingCosts(applyAccountCurrency(applyQuoteConversion(instrument, conversionRate), accountSettings), tradingCosts),
+    [instrument, conversionRate, accountSettings, tradingCosts]
+  );
 
   const updateTradesDisplay = useCallback(() => {
     if (currentBalance <= 0) {
       setTradePlan(null);
       return;
     }
-    const basePlan = calculateTradeGroupsLogic(currentBalance, instrumentType);
+    const basePlan = calculateTradeGroupsLogic(currentBalance, pricedInstrument, riskSettings, planLayout);
+    // A trade is completed once a result is logged against its tradeNumber today
     const updatedGroups = basePlan.groups.map(group => ({
       ...group,
-      trades: group.trades.map((trade, index) => {
-        let overallTradeIndex = index;
-        // Correctly calculate overallTradeIndex based on previous groups' trade counts
-        for(let i = 0; i < basePlan.groups.findIndex(g => g.groupNumber === group.groupNumber); i++) {
-            overallTradeIndex += basePlan.groups[i].trades.length;
-        }
+      trades: group.trades.map(trade => {
+        const result = todaysResults.find(entry => entry.planTrade?.tradeNumber === trade.tradeNumber);
         return {
           ...trade,
-          status: tradesToday > overallTradeIndex ? '✅ Completed' : '🟡 Pending',
-          tradeNumber: overallTradeIndex, // trade.tradeNumber is already set correctly by calculateTradeGroupsLogic
+          status: result ? '✅ Completed' : '🟡 Pending',
+          outcome: result?.planTrade?.outcome,
         } as const;
-      })
+      }),
     }));
 
     setTradePlan({
@@ -80,7 +101,7 @@ export function useDashboardState(instrumentType: InstrumentType, initialBalance
       completedTrades: tradesToday,
       remainingTrades: Math.max(basePlan.totalTradesRequired - tradesToday, 0),
     });
-  }, [currentBalance, tradesToday, instrumentType]);
+  }, [currentBalance, tradesToday, todaysResults, pricedInstrument, riskSettings, planLayout]);
 
 
   useEffect(() => {
@@ -93,28 +114,80 @@ export function useDashboardState(instrumentType: InstrumentType, initialBalance
     updateTradesDisplay();
   }, [currentBalance, instrumentType, updateTradesDisplay]);
 
+  // Append every balance change to the history instead of only keeping the latest value
   useEffect(() => {
-    setLocalStorageItem(getLsKey('tradesToday'), tradesToday);
-    updateTradesDisplay();
-  }, [tradesToday, instrumentType, updateTradesDisplay]);
+    if (!historyLoaded) return;
+    const last = balanceHistory[balanceHistory.length - 1];
+    if (last && last.balance === currentBalance) return;
+    const entry: BalanceHistoryEntry = {
+      timestamp: new Date().toISOString(),
+      balance: currentBalance,
+      reason: last ? pendingReasonRef.current : 'initial',
+    };
+    pendingReasonRef.current = 'journal';
+    const updated = [...balanceHistory, entry];
+    setBalanceHistory(updated);
+    setLocalStorageItem(getLsKey('balanceHistory'), updated);
+  }, [currentBalance, balanceHistory, historyLoaded, instrumentType]);
+
+  // Journals a plan trade's result, updating today's entry for the trade if there is one. The journal
+  // stays the only source of traded P/L; prices can be added by editing the entry in the journal.
+  const handleLogTradeResult = (trade: TradeDetail, direction: TradeDirection, outcome: TradeOutcome, profitLoss: number) => {
+    const existing = todaysResults.find(entry => entry.planTrade?.tradeNumber === trade.tradeNumber);
+    const now = new Date().toISOString();
+    const entry: JournalEntry = {
+      ...existing,
+      id: existing?.id ?? createJournalEntryId(),
+      instrument: instrumentType,
+      direction,
+      lots: Number(trade.lots),
+      openedAt: existing?.openedAt ?? now,
+      closedAt: now,
+      profitLoss,
+      fees: existing?.fees ?? 0,
+      notes: existing?.notes || `Plan trade ${trade.tradeNumber + 1}: ${getTradeOutcomeLabel(outcome)}`,
+      planTrade: { tradeNumber: trade.tradeNumber, outcome },
+    };
+    if (profitLoss !== (existing?.profitLoss ?? 0)) pendingReasonRef.current = 'tradeResult';
+    onSaveJournalEntry(entry);
+  };
 
+  // Deposits, withdrawals and fixes: moves the base so the balance lands on the entered amount, without counting a trade
+  const handleCorrectBalance = (newBalance: number) => {
+    const newBaseBalance = newBalance - journalNetProfit;
+    if (newBalance !== currentBalance) pendingReasonRef.current = 'correction';
+    setBaseBalance(newBaseBalance);
+    setLocalStorageItem(getLsKey('baseBalance'), newBaseBalance);
+  };
 
-  const handleUpdateBalance = (newBalance: number) => {
-    const today = new Date().toDateString();
-    let updatedTradesToday = tradesToday;
+  const handleUpdateGrowthPlanStart = (newStart: GrowthPlanStart) => {
+    setSavedGrowthPlanStart(newStart);
+    setLocalStorageItem(getLsKey('growthPlanStart'), newStart);
+  };
 
-    if (today !== lastTradeDate) {
-      updatedTradesToday = 0;
-      setLastTradeDate(today);
-      setLocalStorageItem(getLsKey('lastTradeDate'), today);
-    }
-    
-    if (newBalance !== currentBalance || getLocalStorageItem<number>(getLsKey('currentBalance'), initialBalanceDefault) !== newBalance ) {
-        updatedTradesToday++;
-    }
+  const handleUpdateExtraMetrics = (newMetricIds: PerformanceMetricId[]) => {
+    setExtraMetricIds(newMetricIds);
+    setLocalStorageItem(getLsKey('extraMetrics'), newMetricIds);
+  };
+
+  const handleUpdateConversionRate = (newRate: number) => {
+    setConversionRate(newRate);
+    setLocalStorageItem(getLsKey('conversionRate'), newRate);
+  };
 
-    setTradesToday(updatedTradesToday);
-    setCurrentBalance(newBalance);
+  const handleUpdateRiskSettings = (newSettings: RiskSettings) => {
+    setRiskSettings(newSettings);
+    setLocalStorageItem(getLsKey('riskSettings'), newSettings);
+  };
+
+  const handleUpdateTradingCosts = (newCosts: TradingCosts) => {
+    setTradingCosts(newCosts);
+    setLocalStorageItem(getLsKey('tradingCosts'), newCosts);
+  };
+
+  const handleUpdatePlanLayout = (newLayout: PlanLayout) => {
+    setPlanLayout(newLayout);
+    setLocalStorageItem(getLsKey('planLayout'), newLayout);
   };
 
   const checkEndOfMonthReminder = useCallback(() => {
@@ -140,52 +213,28 @@ export function useDashboardState(instrumentType: InstrumentType, initialBalance
     return () => clearInterval(intervalId);
   }, [checkEndOfMonthReminder]);
 
-  let dailyTargetLabel = "Today's Target";
-  let dailyTargetValue = 0;
-  let riskMetricLabel = "Trade Risk";
-  let riskMetricValue = 0;
-  let recLotsString: string;
-  let lotPrecision: number;
-
-  if (instrumentType === 'volatility75') {
-    lotPrecision = V75_LOT_PRECISION;
-    const baseLotsV75 = (currentBalance * 0.01) / V75_LOT_CALC_BASE_PIPS_FOR_1_PERCENT_RISK;
-    const actualRecLotsV75 = parseFloat(
-      Math.max(MIN_LOT_SIZE_V75, Math.min(baseLotsV75, MAX_LOT_SIZE_V75)).toFixed(lotPrecision)
-    );
-    recLotsString = actualRecLotsV75.toFixed(lotPrecision);
-
-    // Actual monetary risk and target based on rounded lot size and V75 strategy pips
-    riskMetricValue = actualRecLotsV75 * V75_STRATEGY_SL_PIPS * V75_VALUE_PER_PIP_PER_FULL_LOT;
-    dailyTargetValue = actualRecLotsV75 * V75_STRATEGY_TP_PIPS * V75_VALUE_PER_PIP_PER_FULL_LOT;
-
-    const riskPercent = currentBalance > 0 ? (riskMetricValue / currentBalance * 100).toFixed(1) : '0.0';
-    const targetPercent = currentBalance > 0 ? (dailyTargetValue / currentBalance * 100).toFixed(1) : '0.0';
-
-    dailyTargetLabel = `Today's Target (${targetPercent}%)`;
-    riskMetricLabel = `Trade Risk (${riskPercent}%)`;
-
-  } else { // Gold
-    lotPrecision = GOLD_LOT_PRECISION;
-    const amountToRiskGold = currentBalance * 0.01; // Risk 1%
-    const baseLotsGold = amountToRiskGold / (GOLD_STRATEGY_SL_PIPS * GOLD_VALUE_PER_PIP_PER_STANDARD_LOT);
-    const actualRecLotsGold = parseFloat(
-      Math.max(MIN_LOT_SIZE_GOLD, Math.min(baseLotsGold, MAX_LOT_SIZE_GOLD)).toFixed(lotPrecision)
-    );
-    recLotsString = actualRecLotsGold.toFixed(lotPrecision);
-
-    riskMetricValue = actualRecLotsGold * GOLD_STRATEGY_SL_PIPS * GOLD_VALUE_PER_PIP_PER_STANDARD_LOT;
-    dailyTargetValue = actualRecLotsGold * GOLD_STRATEGY_TP_PIPS * GOLD_VALUE_PER_PIP_PER_STANDARD_LOT;
-    
-    const riskPercent = currentBalance > 0 ? (riskMetricValue / currentBalance * 100).toFixed(1) : '0.0';
-    const targetPercent = currentBalance > 0 ? (dailyTargetValue / currentBalance * 100).toFixed(1) : '0.0';
-
-    dailyTargetLabel = `Today's Target (${targetPercent}%)`;
-    riskMetricLabel = `Trade Risk (${riskPercent}%)`;
-  }
+  const lotPrecision = instrument.lotPrecision;
+  const actualRecLots = calculateRecommendedLots(currentBalance, pricedInstrument, riskSettings);
+  const recLotsString = actualRecLots.toFixed(lotPrecision);
+
+  // Actual monetary risk and target based on rounded lot size and strategy pips, net of trading costs
+  const riskMetricValue = actualRecLots * getLossPerLot(pricedInstrument.strategySLPips, pricedInstrument);
+  const dailyTargetValue = actualRecLots * getProfitPerLot(pricedInstrument.strategySLPips * riskSettings.rewardRatio, pricedInstrument);
+
+  // Exact effective risk after lot rounding
+  const riskPercent = currentBalance > 0 ? (riskMetricValue / currentBalance * 100).toFixed(2) : '0.00';
+  const targetPercent = currentBalance > 0 ? (dailyTargetValue / currentBalance * 100).toFixed(1) : '0.0';
+
+  // Flag when the min/max lot limits make the real risk differ from the configured %
+  const lotClamp = getLotClamp(currentBalance, pricedInstrument, riskSettings);
+  const lotClampWarning = getLotClampWarning(lotClamp, riskPercent, riskSettings, pricedInstrument) ?? getOverRiskWarning(riskPercent, riskSettings);
+  const minimumCapital = getMinimumCapitalForRisk(pricedInstrument, riskSettings.riskPercent);
+
+  const dailyTargetLabel = `Today's Target (${targetPercent}%)`;
+  const riskMetricLabel = `Trade Risk (${riskPercent}%)`;
 
   const metrics: Metric[] = [
-    { label: "Current Balance", value: currentBalance.toFixed(2), unit: "$", id: `${instrumentType}-currentBalance` },
+    { label: "Current Balance", value: currentBalance.toFixed(2), currency: accountSettings.currency, id: `${instrumentType}-currentBalance` },
     {
       label: "Days to Target",
       value: currentBalance > 0 && currentBalance < TARGET_BALANCE && dailyTargetValue > 0 && (dailyTargetValue / currentBalance) > 0.0001 ? // ensure target is meaningful positive growth
@@ -193,13 +242,14 @@ export function useDashboardState(instrumentType: InstrumentType, initialBalance
              : (currentBalance >= TARGET_BALANCE ? 0 : "-"),
       id: `${instrumentType}-daysRemaining`
     },
-    { label: dailyTargetLabel, value: dailyTargetValue.toFixed(2), unit: "$", id: `${instrumentType}-dailyTarget` },
+    { label: dailyTargetLabel, value: dailyTargetValue.toFixed(2), currency: accountSettings.currency, id: `${instrumentType}-dailyTarget` },
     {
       label: riskMetricLabel,
       value: riskMetricValue.toFixed(2),
-      unit: "$",
+      currency: accountSettings.currency,
       copyable: true,
-      id: `${instrumentType}-stopLossAmount`
+      id: `${instrumentType}-stopLossAmount`,
+      warning: lotClampWarning,
     },
     {
       label: "Rec. Lot Size",
@@ -207,13 +257,39 @@ export function useDashboardState(instrumentType: InstrumentType, initialBalance
       copyable: true,
       id: `${instrumentType}-lotSize`
     },
+    // Performance cards picked in the analytics panel
+    ...extraMetricIds.map(metricId => ({
+      label: getPerformanceMetricLabel(metricId),
+      id: `${instrumentType}-${metricId}`,
+      ...getPerformanceMetric(metricId, performanceStats, accountSettings.currency),
+    })),
   ];
 
   return {
     currentBalance,
+    balanceHistory,
+    growthPlanStart,
     tradesToday,
     tradePlan,
+    performanceStats,
+    journalStartingBalance,
+    extraMetricIds,
     metrics,
-    handleUpdateBalance,
+    lotClamp,
+    minimumCapital,
+    effectiveRiskPercent: riskPercent,
+    pricedInstrument,
+    conversionRate,
+    riskSettings,
+    planLayout,
+    tradingCosts,
+    handleLogTradeResult,
+    handleCorrectBalance,
+    handleUpdateGrowthPlanStart,
+    handleUpdateExtraMetrics,
+    handleUpdateConversionRate,
+    handleUpdateRiskSettings,
+    handleUpdatePlanLayout,
+    handleUpdateTradingCosts,
   };
 }
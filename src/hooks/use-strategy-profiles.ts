@@ -0,0 +1,51 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { getLocalStorageItem, setLocalStorageItem } from '@/lib/utils';
+import type { InstrumentType, StrategyProfile } from '@/lib/types';
+
+// Strategy profiles are per instrument since SL/TP pips only make sense for one symbol
+export function useStrategyProfiles(instrumentType: InstrumentType) {
+  const [strategyProfiles, setStrategyProfiles] = useState<StrategyProfile[]>([]);
+  const [activeStrategyId, setActiveStrategyId] = useState<string | null>(null);
+
+  const getLsKey = (baseKey: string) => `${instrumentType}_${baseKey}`;
+
+  useEffect(() => {
+    setStrategyProfiles(getLocalStorageItem<StrategyProfile[]>(getLsKey('strategyProfiles'), []));
+    setActiveStrategyId(getLocalStorageItem<string | null>(getLsKey('activeStrategyId'), null));
+  }, [instrumentType]);
+
+  const handleSelectStrategy = (strategyId: string | null) => {
+    setActiveStrategyId(strategyId);
+    setLocalStorageItem(getLsKey('activeStrategyId'), strategyId);
+  };
+
+  const saveStrategyProfile = (profile: StrategyProfile) => {
+    const exists = strategyProfiles.some(existing => existing.id === profile.id);
+    const updated = exists
+      ? strategyProfiles.map(existing => (existing.id === profile.id ? profile : existing))
+      : [...strategyProfiles, profile];
+    setStrategyProfiles(updated);
+    setLocalStorageItem(getLsKey('strategyProfiles'), updated);
+  };
+
+  const deleteStrategyProfile = (strategyId: string) => {
+    const updated = strategyProfiles.filter(existing => existing.id !== strategyId);
+    setStrategyProfiles(updated);
+    setLocalStorageItem(getLsKey('strategyProfiles'), updated);
+    if (activeStrategyId === strategyId) {
+      handleSelectStrategy(null);
+    }
+  };
+
+  const activeStrategy = strategyProfiles.find(profile => profile.id === activeStrategyId) ?? null;
+
+  return {
+    strategyProfiles,
+    activeStrategy,
+    saveStrategyProfile,
+    deleteStrategyProfile,
+    handleSelectStrategy,
+  };
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { getLocalStorageItem, setLocalStorageItem } from '@/lib/utils';
+import { getJournalStorageKey, sortJournalEntries } from '@/lib/journal';
+import type { InstrumentType, JournalEntry } from '@/lib/types';
+
+export function useTradeJournal(instrumentType: InstrumentType) {
+  const [journalEntries, setJournalEntries] = useState<JournalEntry[]>([]);
+
+  useEffect(() => {
+    setJournalEntries(getLocalStorageItem<JournalEntry[]>(getJournalStorageKey(instrumentType), []));
+  }, [instrumentType]);
+
+  const persist = (entries: JournalEntry[]) => {
+    const sorted = sortJournalEntries(entries);
+    setJournalEntries(sorted);
+    setLocalStorageItem(getJournalStorageKey(instrumentType), sorted);
+  };
+
+  const saveJournalEntry = (entry: JournalEntry) => {
+    const exists = journalEntries.some(existing => existing.id === entry.id);
+    persist(exists
+      ? journalEntries.map(existing => (existing.id === entry.id ? entry : existing))
+      : [...journalEntries, entry]);
+  };
+
+  const deleteJournalEntry = (entryId: string) => {
+    persist(journalEntries.filter(entry => entry.id !== entryId));
+  };
+
+  return {
+    journalEntries,
+    saveJournalEntry,
+    deleteJournalEntry,
+  };
+}
@@ -0,0 +1,41 @@
+import type { BalanceChangeReason, BalanceHistoryEntry, EquityCurveRange } from './types';
+
+export const BALANCE_CHANGE_REASONS: { value: BalanceChangeReason; label: string }[] = [
+  { value: 'initial', label: 'Starting balance' },
+  { value: 'tradeResult', label: 'Trade result' },
+  { value: 'journal', label: 'Journal update' },
+  { value: 'correction', label: 'Balance correction' },
+];
+
+export const getBalanceChangeReasonLabel = (reason: BalanceChangeReason): string =>
+  BALANCE_CHANGE_REASONS.find(({ value }) => value === reason)?.label ?? reason;
+
+export const EQUITY_CURVE_RANGES: { value: EquityCurveRange; label: string }[] = [
+  { value: '7d', label: '7D' },
+  { value: '30d', label: '30D' },
+  { value: 'ytd', label: 'YTD' },
+  { value: 'all', label: 'All' },
+];
+
+// Earliest timestamp shown for a range; null shows the whole history
+export const getEquityCurveRangeStart = (range: EquityCurveRange, now: Date = new Date()): Date | null => {
+  switch (range) {
+    case '7d': return new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+    case '30d': return new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+    case 'ytd': return new Date(now.getFullYear(), 0, 1);
+    default: return null;
+  }
+};
+
+export const filterBalanceHistory = (
+  history: BalanceHistoryEntry[],
+  range: EquityCurveRange,
+  now: Date = new Date()
+): BalanceHistoryEntry[] => {
+  const start = getEquityCurveRangeStart(range, now);
+  if (!start) return history;
+  const inRange = history.filter(entry => new Date(entry.timestamp) >= start);
+  // Carry the balance at the start of the range so the curve doesn't begin at the first change inside it
+  const previous = history.filter(entry => new Date(entry.timestamp) < start).pop();
+  return previous ? [{ ...previous, timestamp: start.toISOString() }, ...inRange] : inRange;
+};
@@ -0,0 +1,65 @@
+import * as z from 'zod';
+import { getStepPrecision } from './form-schemas';
+import type { BrokerProfile, InstrumentSpec } from './types';
+
+export const BROKER_PROFILES_STORAGE_KEY = 'brokerProfiles';
+const BROKER_PROFILES_FILE_VERSION = 1;
+
+// Ids are derived from the name so re-importing a shared file replaces instead of duplicating
+export const getBrokerProfileId = (name: string): string =>
+  `broker-${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+
+// Returns the spec with the profile's overrides for it applied
+export const applyBrokerProfile = (instrument: InstrumentSpec, profile?: BrokerProfile | null): InstrumentSpec => {
+  const overrides = profile?.overrides[instrument.id];
+  if (!overrides) {
+    return instrument;
+  }
+  const merged: InstrumentSpec = { ...instrument, ...overrides };
+  // A new contract size means the value per pip is derived from it unless that is overridden too
+  if (overrides.contractSize !== undefined && overrides.valuePerPipPerLot === undefined) {
+    merged.valuePerPipPerLot = undefined;
+  }
+  if (overrides.lotStep !== undefined) {
+    merged.lotPrecision = getStepPrecision(overrides.lotStep);
+  }
+  return merged;
+};
+
+const positive = z.number().positive();
+
+const brokerProfilesFileSchema = z.object({
+  version: z.literal(BROKER_PROFILES_FILE_VERSION),
+  profiles: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    overrides: z.record(z.object({
+      contractSize: positive.optional(),
+      pipToPriceFactor: positive.optional(),
+      valuePerPipPerLot: positive.optional(),
+      minLot: positive.optional(),
+      maxLot: positive.optional(),
+      lotStep: positive.optional(),
+      pricePrecision: z.number().int().min(0).max(8).optional(),
+    }).strict()),
+  })),
+});
+
+export const serializeBrokerProfiles = (profiles: BrokerProfile[]): string =>
+  JSON.stringify({ version: BROKER_PROFILES_FILE_VERSION, profiles }, null, 2);
+
+// Throws with a readable message when the file is not a valid profiles export
+export const parseBrokerProfiles = (json: string): BrokerProfile[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const result = brokerProfilesFileSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid broker profiles file at "${issue.path.join('.') || 'root'}": ${issue.message}`);
+  }
+  return result.data.profiles;
+};
@@ -0,0 +1,51 @@
+import type { AccountSettings } from './types';
+
+export const ACCOUNT_SETTINGS_STORAGE_KEY = 'accountSettings';
+
+// USC is a cent account: balances are in US cents, so 1 USD = 100 USC
+export const ACCOUNT_CURRENCIES: { code: string; name: string }[] = [
+  { code: 'USD', name: 'US Dollar' },
+  { code: 'USC', name: 'US Cent' },
+  { code: 'EUR', name: 'Euro' },
+  { code: 'GBP', name: 'British Pound' },
+  { code: 'KES', name: 'Kenyan Shilling' },
+  { code: 'NGN', name: 'Nigerian Naira' },
+  { code: 'ZAR', name: 'South African Rand' },
+  { code: 'INR', name: 'Indian Rupee' },
+  { code: 'JPY', name: 'Japanese Yen' },
+];
+
+// Indicative units of each currency per 1 USD; users keep their own copy up to date in settings
+export const DEFAULT_USD_RATES: Record<string, number> = {
+  USD: 1,
+  USC: 100,
+  EUR: 0.92,
+  GBP: 0.79,
+  KES: 129,
+  NGN: 1500,
+  ZAR: 18.5,
+  INR: 83,
+  JPY: 150,
+};
+
+export const DEFAULT_ACCOUNT_SETTINGS: AccountSettings = {
+  currency: 'USD',
+  usdRates: DEFAULT_USD_RATES,
+  leverage: 100,
+  stopOutLevel: 50,
+};
+
+export const getUsdToAccountRate = (account: AccountSettings): number =>
+  account.currency === 'USD' ? 1 : account.usdRates[account.currency] ?? DEFAULT_USD_RATES[account.currency] ?? 1;
+
+// Formats an amount with the currency's symbol and minor-unit decimals
+export const formatMoney = (amount: number, currency: string = 'USD'): string => {
+  if (currency === 'USC') {
+    return `${new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(amount)} USC`;
+  }
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  } catch (error) {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
@@ -0,0 +1,38 @@
+import * as z from "zod";
+
+// Numeric form fields are kept as strings and validated here, then converted on submit
+
+const isPositiveNumber = (value: string) => value !== "" && !isNaN(Number(value)) && Number(value) > 0;
+
+export const positiveNumber = (label: string) =>
+  z.string().trim().min(1, { message: `${label} is required.` }).refine(isPositiveNumber, {
+    message: `${label} must be a number greater than 0.`,
+  });
+
+export const optionalPositiveNumber = (label: string) =>
+  z.string().trim().refine((value) => value === "" || isPositiveNumber(value), {
+    message: `${label} must be a number greater than 0.`,
+  });
+
+export const optionalDigits = (label: string) =>
+  z.string().trim().refine((value) => value === "" || (/^\d+$/.test(value) && Number(value) <= 8), {
+    message: `${label} must be a whole number from 0 to 8.`,
+  });
+
+// Decimal places implied by a lot step such as "0.01"
+export const getStepPrecision = (step: number): number => step.toString().split(".")[1]?.length ?? 0;
+
+export const positiveInteger = (label: string) =>
+  z.string().trim().min(1, { message: `${label} is required.` }).refine((value) => /^\d+$/.test(value) && Number(value) > 0, {
+    message: `${label} must be a whole number greater than 0.`,
+  });
+
+export const optionalNumber = (label: string) =>
+  z.string().trim().refine((value) => value === "" || !isNaN(Number(value)), {
+    message: `${label} must be a number.`,
+  });
+
+export const optionalNonNegativeNumber = (label: string) =>
+  z.string().trim().refine((value) => value === "" || (!isNaN(Number(value)) && Number(value) >= 0), {
+    message: `${label} must be a number of 0 or more.`,
+  });
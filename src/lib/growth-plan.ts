@@ -0,0 +1,90 @@
+import { DAILY_GROWTH_RATE } from './utils';
+import type { BalanceHistoryEntry, GrowthPlanPoint, GrowthPlanProgress, GrowthPlanStart } from './types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const toDateInputValue = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const parsePlanStartDate = (startDate: string): Date => new Date(`${startDate}T00:00:00`);
+
+// Earliest start date accepted, so a mistyped year can't make the series span centuries
+export const MIN_PLAN_START_DATE = '2000-01-01';
+
+// The plan compounds on trading days only, like calculateCompoundingLogic
+const isTradingDay = (date: Date): boolean => date.getDay() !== 0 && date.getDay() !== 6;
+
+// The plan starts at the first recorded balance unless a start was set explicitly
+export const getDefaultGrowthPlanStart = (history: BalanceHistoryEntry[], fallbackBalance: number): GrowthPlanStart => {
+  const first = history[0];
+  return first
+    ? { startBalance: first.balance, startDate: toDateInputValue(new Date(first.timestamp)) }
+    : { startBalance: fallbackBalance, startDate: toDateInputValue(new Date()) };
+};
+
+// Trading days (Mon-Fri) after the start up to and including today; the plan compounds once per trading day
+export const getElapsedPlanDays = (planStart: GrowthPlanStart, now: Date = new Date()): number => {
+  const start = parsePlanStartDate(planStart.startDate);
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const calendarDays = Math.round((today.getTime() - start.getTime()) / MS_PER_DAY);
+  if (!(calendarDays > 0)) return 0;
+  // Every full week holds five trading days; only the remainder needs checking day by day
+  let tradingDays = Math.floor(calendarDays / 7) * 5;
+  for (let day = calendarDays - (calendarDays % 7) + 1; day <= calendarDays; day++) {
+    if (isTradingDay(new Date(start.getFullYear(), start.getMonth(), start.getDate() + day))) tradingDays++;
+  }
+  return tradingDays;
+};
+
+export const getPlannedBalance = (startBalance: number, days: number): number =>
+  startBalance * Math.pow(DAILY_GROWTH_RATE, days);
+
+export const calculateGrowthPlanProgress = (
+  planStart: GrowthPlanStart,
+  currentBalance: number,
+  now: Date = new Date()
+): GrowthPlanProgress => {
+  const elapsedDays = getElapsedPlanDays(planStart, now);
+  const plannedBalance = getPlannedBalance(planStart.startBalance, elapsedDays);
+  // Day of the plan the current balance would be reached on, compared with today
+  const daysAhead = currentBalance > 0 && planStart.startBalance > 0
+    ? Math.log(currentBalance / planStart.startBalance) / Math.log(DAILY_GROWTH_RATE) - elapsedDays
+    : null;
+  return {
+    elapsedDays,
+    plannedBalance,
+    gap: currentBalance - plannedBalance,
+    daysAhead,
+  };
+};
+
+// One point for the start and each trading day since, pairing the ideal curve with the recorded balance
+export const buildGrowthPlanSeries = (
+  planStart: GrowthPlanStart,
+  history: BalanceHistoryEntry[],
+  now: Date = new Date()
+): GrowthPlanPoint[] => {
+  const start = parsePlanStartDate(planStart.startDate);
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const points: GrowthPlanPoint[] = [];
+  let historyIndex = 0;
+  let actual: number | undefined;
+  let tradingDay = 0;
+
+  for (let dayStart = start; dayStart <= today; dayStart = new Date(dayStart.getFullYear(), dayStart.getMonth(), dayStart.getDate() + 1)) {
+    if (dayStart > start && !isTradingDay(dayStart)) continue;
+    if (dayStart > start) tradingDay++;
+    // Weekend balance changes show up on the next trading day
+    const dayEnd = new Date(dayStart.getFullYear(), dayStart.getMonth(), dayStart.getDate() + 1);
+    while (historyIndex < history.length && new Date(history[historyIndex].timestamp) < dayEnd) {
+      actual = history[historyIndex].balance;
+      historyIndex++;
+    }
+    points.push({
+      time: dayStart.getTime(),
+      planned: getPlannedBalance(planStart.startBalance, tradingDay),
+      actual,
+    });
+  }
+  return points;
+};
@@ -0,0 +1,581 @@
+import { getUsdToAccountRate } from './currency';
+import type { AccountSettings, DistanceUnit, InstrumentSpec, InstrumentType, StrategyProfile, TradingCosts } from './types';
+
+// Contract specs for every supported instrument. Adding an instrument means adding an entry here.
+// Index and crypto CFDs are sized from the contract size, with SL/TP distances in points.
+// Deriv synthetic specs follow the Deriv MT5 contract specifications (minimum volume, volume step, contract size 1).
+export const INSTRUMENTS: Record<InstrumentType, InstrumentSpec> = {
+  volatility10: {
+    id: 'volatility10',
+    name: 'Volatility 10 Index',
+    shortName: 'Volatility 10',
+    symbol: 'Volatility 10 Index',
+    category: 'synthetic',
+    quoteCurrency: 'USD',
+    minLot: 0.50,
+    maxLot: 100.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    pipToPriceFactor: 0.01,
+    valuePerPipPerLot: 0.01, // Contract size 1: $1 per 1.0 price move per lot
+    strategySLPips: 1000,
+    strategyTPPips: 2000,
+    pricePrecision: 3,
+    initialBalanceDefault: 500,
+  },
+  volatility25: {
+    id: 'volatility25',
+    name: 'Volatility 25 Index',
+    shortName: 'Volatility 25',
+    symbol: 'Volatility 25 Index',
+    category: 'synthetic',
+    quoteCurrency: 'USD',
+    minLot: 0.50,
+    maxLot: 100.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    pipToPriceFactor: 0.01,
+    valuePerPipPerLot: 0.01, // Contract size 1: $1 per 1.0 price move per lot
+    strategySLPips: 2000,
+    strategyTPPips: 4000,
+    pricePrecision: 3,
+    initialBalanceDefault: 1000,
+  },
+  volatility50: {
+    id: 'volatility50',
+    name: 'Volatility 50 Index',
+    shortName: 'Volatility 50',
+    symbol: 'Volatility 50 Index',
+    category: 'synthetic',
+    quoteCurrency: 'USD',
+    minLot: 4.00,
+    maxLot: 1000.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    pipToPriceFactor: 0.01,
+    valuePerPipPerLot: 0.01, // Contract size 1: $1 per 1.0 price move per lot
+    strategySLPips: 500,
+    strategyTPPips: 1000,
+    pricePrecision: 2,
+    initialBalanceDefault: 2000,
+  },
+  volatility75: {
+    id: 'volatility75',
+    name: 'Volatility 75',
+    shortName: 'Volatility 75',
+    symbol: 'Volatility 75 Index',
+    category: 'synthetic',
+    quoteCurrency: 'USD',
+    minLot: 0.001,
+    maxLot: 5.00,
+    lotStep: 0.001,
+    lotPrecision: 3,
+    pipToPriceFactor: 1, // For V75, 1 pip is 1 price unit
+    valuePerPipPerLot: 1, // V75: 1 pip = $1 profit/loss per lot
+    strategySLPips: 1000,
+    strategyTPPips: 2000,
+    pricePrecision: 1, // V75 point often needs 1 decimal
+    initialBalanceDefault: 50,
+  },
+  volatility100: {
+    id: 'volatility100',
+    name: 'Volatility 100 Index',
+    shortName: 'Volatility 100',
+    symbol: 'Volatility 100 Index',
+    category: 'synthetic',
+    quoteCurrency: 'USD',
+    minLot: 0.50,
+    maxLot: 50.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    pipToPriceFactor: 0.01,
+    valuePerPipPerLot: 0.01, // Contract size 1: $1 per 1.0 price move per lot
+    strategySLPips: 2500,
+    strategyTPPips: 5000,
+    pricePrecision: 2,
+    initialBalanceDefault: 1500,
+  },
+  boom1000: {
+    id: 'boom1000',
+    name: 'Boom 1000 Index',
+    shortName: 'Boom 1000',
+    symbol: 'Boom 1000 Index',
+    category: 'synthetic',
+    quoteCurrency: 'USD',
+    minLot: 0.20,
+    maxLot: 50.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    pipToPriceFactor: 0.01,
+    valuePerPipPerLot: 0.01, // Contract size 1: $1 per 1.0 price move per lot
+    strategySLPips: 1000,
+    strategyTPPips: 2000,
+    pricePrecision: 3,
+    initialBalanceDefault: 200,
+  },
+  boom500: {
+    id: 'boom500',
+    name: 'Boom 500 Index',
+    shortName: 'Boom 500',
+    symbol: 'Boom 500 Index',
+    category: 'synthetic',
+    quoteCurrency: 'USD',
+    minLot: 0.20,
+    maxLot: 50.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    pipToPriceFactor: 0.01,
+    valuePerPipPerLot: 0.01, // Contract size 1: $1 per 1.0 price move per lot
+    strategySLPips: 1000,
+    strategyTPPips: 2000,
+    pricePrecision: 3,
+    initialBalanceDefault: 200,
+  },
+  crash1000: {
+    id: 'crash1000',
+    name: 'Crash 1000 Index',
+    shortName: 'Crash 1000',
+    symbol: 'Crash 1000 Index',
+    category: 'synthetic',
+    quoteCurrency: 'USD',
+    minLot: 0.20,
+    maxLot: 50.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    pipToPriceFactor: 0.01,
+    valuePerPipPerLot: 0.01, // Contract size 1: $1 per 1.0 price move per lot
+    strategySLPips: 1000,
+    strategyTPPips: 2000,
+    pricePrecision: 3,
+    initialBalanceDefault: 200,
+  },
+  crash500: {
+    id: 'crash500',
+    name: 'Crash 500 Index',
+    shortName: 'Crash 500',
+    symbol: 'Crash 500 Index',
+    category: 'synthetic',
+    quoteCurrency: 'USD',
+    minLot: 0.20,
+    maxLot: 50.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    pipToPriceFactor: 0.01,
+    valuePerPipPerLot: 0.01, // Contract size 1: $1 per 1.0 price move per lot
+    strategySLPips: 1000,
+    strategyTPPips: 2000,
+    pricePrecision: 3,
+    initialBalanceDefault: 200,
+  },
+  stepindex: {
+    id: 'stepindex',
+    name: 'Step Index',
+    shortName: 'Step Index',
+    symbol: 'Step Index',
+    category: 'synthetic',
+    quoteCurrency: 'USD',
+    minLot: 0.10,
+    maxLot: 50.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    pipToPriceFactor: 0.1,
+    valuePerPipPerLot: 0.1, // Contract size 1: $1 per 1.0 price move per lot
+    strategySLPips: 100,
+    strategyTPPips: 200,
+    pricePrecision: 1,
+    initialBalanceDefault: 100,
+  },
+  gold: {
+    id: 'gold',
+    name: 'Gold (XAU/USD)',
+    shortName: 'Gold',
+    symbol: 'XAUUSD',
+    category: 'metal',
+    quoteCurrency: 'USD',
+    minLot: 0.01,
+    maxLot: 5.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    pipToPriceFactor: 0.10, // 1 pip = $0.10 price move for Gold
+    contractSize: 100, // 100 oz per standard lot: $10 profit/loss per pip
+    strategySLPips: 100,
+    strategyTPPips: 200,
+    pricePrecision: 2,
+    initialBalanceDefault: 500,
+  },
+  eurusd: {
+    id: 'eurusd',
+    name: 'Euro / US Dollar (EUR/USD)',
+    shortName: 'EURUSD',
+    symbol: 'EURUSD',
+    category: 'forex',
+    quoteCurrency: 'USD',
+    minLot: 0.01,
+    maxLot: 50.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    pipToPriceFactor: 0.0001, // 4th decimal
+    valuePerPipPerLot: 10, // 100,000 units × pip size, in USD
+    strategySLPips: 20,
+    strategyTPPips: 40,
+    pricePrecision: 5,
+    initialBalanceDefault: 500,
+  },
+  gbpusd: {
+    id: 'gbpusd',
+    name: 'Pound / US Dollar (GBP/USD)',
+    shortName: 'GBPUSD',
+    symbol: 'GBPUSD',
+    category: 'forex',
+    quoteCurrency: 'USD',
+    minLot: 0.01,
+    maxLot: 50.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    pipToPriceFactor: 0.0001, // 4th decimal
+    valuePerPipPerLot: 10, // 100,000 units × pip size, in USD
+    strategySLPips: 20,
+    strategyTPPips: 40,
+    pricePrecision: 5,
+    initialBalanceDefault: 500,
+  },
+  audusd: {
+    id: 'audusd',
+    name: 'Aussie / US Dollar (AUD/USD)',
+    shortName: 'AUDUSD',
+    symbol: 'AUDUSD',
+    category: 'forex',
+    quoteCurrency: 'USD',
+    minLot: 0.01,
+    maxLot: 50.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    pipToPriceFactor: 0.0001, // 4th decimal
+    valuePerPipPerLot: 10, // 100,000 units × pip size, in USD
+    strategySLPips: 20,
+    strategyTPPips: 40,
+    pricePrecision: 5,
+    initialBalanceDefault: 500,
+  },
+  nzdusd: {
+    id: 'nzdusd',
+    name: 'Kiwi / US Dollar (NZD/USD)',
+    shortName: 'NZDUSD',
+    symbol: 'NZDUSD',
+    category: 'forex',
+    quoteCurrency: 'USD',
+    minLot: 0.01,
+    maxLot: 50.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    pipToPriceFactor: 0.0001, // 4th decimal
+    valuePerPipPerLot: 10, // 100,000 units × pip size, in USD
+    strategySLPips: 20,
+    strategyTPPips: 40,
+    pricePrecision: 5,
+    initialBalanceDefault: 500,
+  },
+  usdjpy: {
+    id: 'usdjpy',
+    name: 'US Dollar / Yen (USD/JPY)',
+    shortName: 'USDJPY',
+    symbol: 'USDJPY',
+    category: 'forex',
+    quoteCurrency: 'JPY',
+    minLot: 0.01,
+    maxLot: 50.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    pipToPriceFactor: 0.01, // JPY pairs: 2nd decimal
+    valuePerPipPerLot: 1000, // 100,000 units × pip size, in JPY
+    defaultConversionRate: 150.00, // Indicative USDJPY
+    strategySLPips: 20,
+    strategyTPPips: 40,
+    pricePrecision: 3,
+    initialBalanceDefault: 500,
+  },
+  usdchf: {
+    id: 'usdchf',
+    name: 'US Dollar / Franc (USD/CHF)',
+    shortName: 'USDCHF',
+    symbol: 'USDCHF',
+    category: 'forex',
+    quoteCurrency: 'CHF',
+    minLot: 0.01,
+    maxLot: 50.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    pipToPriceFactor: 0.0001, // 4th decimal
+    valuePerPipPerLot: 10, // 100,000 units × pip size, in CHF
+    defaultConversionRate: 0.88, // Indicative USDCHF
+    strategySLPips: 20,
+    strategyTPPips: 40,
+    pricePrecision: 5,
+    initialBalanceDefault: 500,
+  },
+  usdcad: {
+    id: 'usdcad',
+    name: 'US Dollar / Loonie (USD/CAD)',
+    shortName: 'USDCAD',
+    symbol: 'USDCAD',
+    category: 'forex',
+    quoteCurrency: 'CAD',
+    minLot: 0.01,
+    maxLot: 50.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    pipToPriceFactor: 0.0001, // 4th decimal
+    valuePerPipPerLot: 10, // 100,000 units × pip size, in CAD
+    defaultConversionRate: 1.37, // Indicative USDCAD
+    strategySLPips: 20,
+    strategyTPPips: 40,
+    pricePrecision: 5,
+    initialBalanceDefault: 500,
+  },
+  eurjpy: {
+    id: 'eurjpy',
+    name: 'Euro / Yen (EUR/JPY)',
+    shortName: 'EURJPY',
+    symbol: 'EURJPY',
+    category: 'forex',
+    quoteCurrency: 'JPY',
+    minLot: 0.01,
+    maxLot: 50.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    pipToPriceFactor: 0.01, // JPY pairs: 2nd decimal
+    valuePerPipPerLot: 1000, // 100,000 units × pip size, in JPY
+    defaultConversionRate: 150.00, // Indicative USDJPY
+    strategySLPips: 20,
+    strategyTPPips: 40,
+    pricePrecision: 3,
+    initialBalanceDefault: 500,
+  },
+  gbpjpy: {
+    id: 'gbpjpy',
+    name: 'Pound / Yen (GBP/JPY)',
+    shortName: 'GBPJPY',
+    symbol: 'GBPJPY',
+    category: 'forex',
+    quoteCurrency: 'JPY',
+    minLot: 0.01,
+    maxLot: 50.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    pipToPriceFactor: 0.01, // JPY pairs: 2nd decimal
+    valuePerPipPerLot: 1000, // 100,000 units × pip size, in JPY
+    defaultConversionRate: 150.00, // Indicative USDJPY
+    strategySLPips: 20,
+    strategyTPPips: 40,
+    pricePrecision: 3,
+    initialBalanceDefault: 500,
+  },
+  eurgbp: {
+    id: 'eurgbp',
+    name: 'Euro / Pound (EUR/GBP)',
+    shortName: 'EURGBP',
+    symbol: 'EURGBP',
+    category: 'forex',
+    quoteCurrency: 'GBP',
+    minLot: 0.01,
+    maxLot: 50.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    pipToPriceFactor: 0.0001, // 4th decimal
+    valuePerPipPerLot: 10, // 100,000 units × pip size, in GBP
+    defaultConversionRate: 1.27, // Indicative GBPUSD
+    strategySLPips: 20,
+    strategyTPPips: 40,
+    pricePrecision: 5,
+    initialBalanceDefault: 500,
+  },
+  us30: {
+    id: 'us30',
+    name: 'Wall Street 30 (US30)',
+    shortName: 'US30',
+    symbol: 'US30',
+    category: 'index',
+    quoteCurrency: 'USD',
+    minLot: 0.01,
+    maxLot: 100.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    distanceUnit: 'points',
+    pipToPriceFactor: 1, // 1 point = 1.0 price move
+    contractSize: 1, // 1 × lot in USD per point
+    strategySLPips: 100,
+    strategyTPPips: 200,
+    pricePrecision: 2,
+    initialBalanceDefault: 500,
+  },
+  nas100: {
+    id: 'nas100',
+    name: 'US Tech 100 (NAS100)',
+    shortName: 'NAS100',
+    symbol: 'NAS100',
+    category: 'index',
+    quoteCurrency: 'USD',
+    minLot: 0.01,
+    maxLot: 100.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    distanceUnit: 'points',
+    pipToPriceFactor: 1, // 1 point = 1.0 price move
+    contractSize: 1, // 1 × lot in USD per point
+    strategySLPips: 50,
+    strategyTPPips: 100,
+    pricePrecision: 2,
+    initialBalanceDefault: 500,
+  },
+  ger40: {
+    id: 'ger40',
+    name: 'Germany 40 (GER40)',
+    shortName: 'GER40',
+    symbol: 'GER40',
+    category: 'index',
+    quoteCurrency: 'EUR',
+    minLot: 0.01,
+    maxLot: 100.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    distanceUnit: 'points',
+    pipToPriceFactor: 1, // 1 point = 1.0 price move
+    contractSize: 1, // 1 × lot in EUR per point
+    defaultConversionRate: 1.08, // Indicative EURUSD
+    strategySLPips: 50,
+    strategyTPPips: 100,
+    pricePrecision: 2,
+    initialBalanceDefault: 500,
+  },
+  btcusd: {
+    id: 'btcusd',
+    name: 'Bitcoin / US Dollar (BTC/USD)',
+    shortName: 'BTCUSD',
+    symbol: 'BTCUSD',
+    category: 'crypto',
+    quoteCurrency: 'USD',
+    minLot: 0.01,
+    maxLot: 10.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    distanceUnit: 'points',
+    pipToPriceFactor: 1, // 1 point = 1.0 price move
+    contractSize: 1, // 1 BTC per lot
+    strategySLPips: 500,
+    strategyTPPips: 1000,
+    pricePrecision: 2,
+    initialBalanceDefault: 1000,
+  },
+  ethusd: {
+    id: 'ethusd',
+    name: 'Ethereum / US Dollar (ETH/USD)',
+    shortName: 'ETHUSD',
+    symbol: 'ETHUSD',
+    category: 'crypto',
+    quoteCurrency: 'USD',
+    minLot: 0.01,
+    maxLot: 100.00,
+    lotStep: 0.01,
+    lotPrecision: 2,
+    distanceUnit: 'points',
+    pipToPriceFactor: 1, // 1 point = 1.0 price move
+    contractSize: 1, // 1 ETH per lot
+    strategySLPips: 30,
+    strategyTPPips: 60,
+    pricePrecision: 2,
+    initialBalanceDefault: 500,
+  },
+};
+
+export const getInstrumentSpec = (instrumentType: InstrumentType): InstrumentSpec | undefined =>
+  Object.prototype.hasOwnProperty.call(INSTRUMENTS, instrumentType) ? INSTRUMENTS[instrumentType] : undefined;
+
+export const listInstruments = (): InstrumentSpec[] => Object.values(INSTRUMENTS);
+
+// User-defined instruments live in localStorage and are served by the client-side custom dashboard route
+export const CUSTOM_INSTRUMENTS_STORAGE_KEY = 'customInstruments';
+
+export const getCustomInstrumentId = (symbol: string): InstrumentType =>
+  `custom-${symbol.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+
+export const getDashboardHref = (instrument: InstrumentSpec): string =>
+  instrument.category === 'custom'
+    ? `/dashboard/custom?id=${encodeURIComponent(instrument.id)}`
+    : `/dashboard/${instrument.id}`;
+
+// Currency every pip value is normalised to before conversion into the account currency
+export const PRICING_CURRENCY = 'USD';
+
+// Profit/loss per pip (or point) for 1 lot; CFDs derive it from the contract size
+export const getValuePerPipPerLot = (instrument: InstrumentSpec): number =>
+  instrument.valuePerPipPerLot ?? (instrument.contractSize ?? 1) * instrument.pipToPriceFactor;
+
+// Round-trip cost of one lot: spread, commission on both sides and swap for the nights held
+export const getTradingCostPerLot = (instrument: InstrumentSpec): number => {
+  const costs = instrument.tradingCosts;
+  if (!costs) {
+    return 0;
+  }
+  return costs.spreadPips * getValuePerPipPerLot(instrument) + costs.commissionPerLot * 2 + costs.swapPerNight * costs.nights;
+};
+
+export const getDistanceUnit = (instrument: InstrumentSpec): DistanceUnit => instrument.distanceUnit ?? 'pips';
+
+// Singular form for labels such as "100 pip SL"
+export const getDistanceUnitLabel = (instrument: InstrumentSpec): string =>
+  getDistanceUnit(instrument) === 'points' ? 'point' : 'pip';
+
+// Quotes conventionally priced as USDxxx; the rest are priced as xxxUSD
+const USD_BASE_QUOTES = ['JPY', 'CHF', 'CAD'];
+
+export const needsQuoteConversion = (instrument: InstrumentSpec): boolean =>
+  instrument.quoteCurrency !== PRICING_CURRENCY;
+
+// Pair whose rate converts the quote currency into USD, e.g. "USDJPY" for EURJPY
+export const getQuoteConversionPair = (instrument: InstrumentSpec): string =>
+  USD_BASE_QUOTES.includes(instrument.quoteCurrency)
+    ? `${PRICING_CURRENCY}${instrument.quoteCurrency}`
+    : `${instrument.quoteCurrency}${PRICING_CURRENCY}`;
+
+// Returns the spec with valuePerPipPerLot expressed in USD
+export const applyQuoteConversion = (instrument: InstrumentSpec, conversionRate: number): InstrumentSpec => {
+  if (!needsQuoteConversion(instrument) || !(conversionRate > 0)) {
+    return instrument;
+  }
+  const quoteToUsd = USD_BASE_QUOTES.includes(instrument.quoteCurrency) ? 1 / conversionRate : conversionRate;
+  return {
+    ...instrument,
+    quoteCurrency: PRICING_CURRENCY,
+    valuePerPipPerLot: getValuePerPipPerLot(instrument) * quoteToUsd,
+  };
+};
+
+// Returns a USD-priced spec with valuePerPipPerLot expressed in the account currency
+export const applyAccountCurrency = (instrument: InstrumentSpec, account: AccountSettings): InstrumentSpec => {
+  if (instrument.quoteCurrency === account.currency) {
+    return instrument;
+  }
+  return {
+    ...instrument,
+    quoteCurrency: account.currency,
+    valuePerPipPerLot: getValuePerPipPerLot(instrument) * getUsdToAccountRate(account),
+  };
+};
+
+// Returns the spec with the strategy profile's SL/TP pips in place of the instrument defaults
+export const applyStrategyProfile = (instrument: InstrumentSpec, profile?: StrategyProfile | null): InstrumentSpec =>
+  profile
+    ? { ...instrument, strategySLPips: profile.slPips, strategyTPPips: profile.tpPips }
+    : instrument;
+
+// Costs are in the account currency, so apply them to a spec already priced in it
+export const applyTradingCosts = (instrument: InstrumentSpec, costs: TradingCosts): InstrumentSpec => ({
+  ...instrument,
+  tradingCosts: costs,
+});
+
+// Capital at which the minimum lot risks the given % over the strategy SL, trading costs included
+export const getMinimumCapitalForRisk = (instrument: InstrumentSpec, riskPercent: number = 1): number => {
+  const lossPerLot = instrument.strategySLPips * getValuePerPipPerLot(instrument) + getTradingCostPerLot(instrument);
+  return (instrument.minLot * lossPerLot) / (riskPercent / 100);
+};
@@ -0,0 +1,52 @@
+import { getValuePerPipPerLot } from './instruments';
+import { getLocalStorageItem } from './utils';
+import type { InstrumentSpec, InstrumentType, JournalEntry, TradeDirection, TradeOutcome } from './types';
+
+export const getJournalStorageKey = (instrumentType: InstrumentType) => `${instrumentType}_journal`;
+
+export const createJournalEntryId = () => `trade-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getJournalEntryNetProfit = (entry: JournalEntry): number => entry.profitLoss - entry.fees;
+
+export const getJournalNetProfit = (entries: JournalEntry[]): number =>
+  entries.reduce((total, entry) => total + getJournalEntryNetProfit(entry), 0);
+
+// The balance before journaled P/L. Balances saved before the journal existed become the base,
+// less any journal P/L already in them; currentBalance is only read for that migration.
+export const getStoredBaseBalance = (instrumentType: InstrumentType, initialBalanceDefault: number): number => {
+  const storedBase = getLocalStorageItem<number | null>(`${instrumentType}_baseBalance`, null);
+  if (storedBase !== null) return storedBase;
+  const savedBalance = getLocalStorageItem<number>(`${instrumentType}_currentBalance`, initialBalanceDefault);
+  const savedJournal = getLocalStorageItem<JournalEntry[]>(getJournalStorageKey(instrumentType), []);
+  return savedBalance - getJournalNetProfit(savedJournal);
+};
+
+// P/L from the price move, for entries logged without the broker's figure. Needs a spec priced in the account currency.
+export const calculateJournalProfitLoss = (
+  direction: TradeDirection,
+  entryPrice: number,
+  exitPrice: number,
+  lots: number,
+  instrument: InstrumentSpec
+): number => {
+  const priceMove = direction === 'rise' ? exitPrice - entryPrice : entryPrice - exitPrice;
+  return (priceMove / instrument.pipToPriceFactor) * lots * getValuePerPipPerLot(instrument);
+};
+
+export const TRADE_OUTCOMES: { value: TradeOutcome; label: string }[] = [
+  { value: 'tp', label: 'TP hit' },
+  { value: 'sl', label: 'SL hit' },
+  { value: 'manual', label: 'Manual close' },
+  { value: 'breakEven', label: 'Break-even' },
+];
+
+export const getTradeOutcomeLabel = (outcome: TradeOutcome): string =>
+  TRADE_OUTCOMES.find(({ value }) => value === outcome)?.label ?? outcome;
+
+// Entries logged today against the trade plan; these mark the plan's trades completed
+export const getTodaysPlanTradeEntries = (entries: JournalEntry[], now: Date = new Date()): JournalEntry[] =>
+  entries.filter(entry => entry.planTrade && new Date(entry.closedAt).toDateString() === now.toDateString());
+
+// Newest first, by close time
+export const sortJournalEntries = (entries: JournalEntry[]): JournalEntry[] =>
+  [...entries].sort((a, b) => b.closedAt.localeCompare(a.closedAt));
@@ -0,0 +1,38 @@
+import type { OrderType, TradeDirection } from './types';
+
+export const ORDER_TYPES: { value: OrderType; label: string }[] = [
+  { value: 'buy', label: 'Buy (Market)' },
+  { value: 'sell', label: 'Sell (Market)' },
+  { value: 'buyLimit', label: 'Buy Limit' },
+  { value: 'sellLimit', label: 'Sell Limit' },
+  { value: 'buyStop', label: 'Buy Stop' },
+  { value: 'sellStop', label: 'Sell Stop' },
+];
+
+// Ticket wording as brokers show it, e.g. "BUY LIMIT"
+export const getOrderTypeTicketLabel = (orderType: OrderType): string => {
+  switch (orderType) {
+    case 'buyLimit': return 'BUY LIMIT';
+    case 'sellLimit': return 'SELL LIMIT';
+    case 'buyStop': return 'BUY STOP';
+    case 'sellStop': return 'SELL STOP';
+    case 'sell': return 'SELL';
+    default: return 'BUY';
+  }
+};
+
+export const getOrderDirection = (orderType: OrderType): TradeDirection =>
+  orderType === 'buy' || orderType === 'buyLimit' || orderType === 'buyStop' ? 'rise' : 'fall';
+
+export const isPendingOrder = (orderType: OrderType): boolean => orderType !== 'buy' && orderType !== 'sell';
+
+// Limits enter on a pullback and stops on a breakout: buy limit and sell stop sit below market, the others above
+export const getPendingEntrySide = (orderType: OrderType): 'above' | 'below' =>
+  orderType === 'buyLimit' || orderType === 'sellStop' ? 'below' : 'above';
+
+export const isEntryOnCorrectSideOfMarket = (orderType: OrderType, entryPrice: number, marketPrice: number): boolean => {
+  if (!isPendingOrder(orderType)) {
+    return true;
+  }
+  return getPendingEntrySide(orderType) === 'below' ? entryPrice < marketPrice : entryPrice > marketPrice;
+};
@@ -0,0 +1,115 @@
+import { getJournalEntryNetProfit } from './journal';
+import type { JournalEntry, Metric, PerformanceMetricId, PerformanceStats } from './types';
+
+export const PERFORMANCE_METRICS: { id: PerformanceMetricId; label: string }[] = [
+  { id: 'winRate', label: 'Win Rate' },
+  { id: 'averageWin', label: 'Average Win' },
+  { id: 'averageLoss', label: 'Average Loss' },
+  { id: 'expectancy', label: 'Expectancy' },
+  { id: 'expectancyR', label: 'Expectancy (R)' },
+  { id: 'profitFactor', label: 'Profit Factor' },
+  { id: 'largestWin', label: 'Largest Win' },
+  { id: 'largestLoss', label: 'Largest Loss' },
+  { id: 'averageHoldingTime', label: 'Avg. Holding Time' },
+  { id: 'longestWinStreak', label: 'Longest Win Streak' },
+  { id: 'longestLossStreak', label: 'Longest Loss Streak' },
+  { id: 'maxDrawdown', label: 'Max Drawdown' },
+  { id: 'maxDrawdownPercent', label: 'Max Drawdown %' },
+];
+
+// Exit move as a multiple of the stop distance, from prices so it reads the same on every instrument.
+// Null for entries without prices, such as results logged from the trade plan.
+export const getJournalEntryRMultiple = (entry: JournalEntry): number | null => {
+  if (entry.entryPrice === undefined || entry.exitPrice === undefined || entry.stopLoss === undefined || entry.stopLoss === entry.entryPrice) return null;
+  const move = entry.direction === 'rise' ? entry.exitPrice - entry.entryPrice : entry.entryPrice - entry.exitPrice;
+  return move / Math.abs(entry.entryPrice - entry.stopLoss);
+};
+
+const average = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+// startingBalance is the balance before the first journaled trade; drawdown is measured on the equity from there
+export const calculatePerformanceStats = (entries: JournalEntry[], startingBalance: number): PerformanceStats => {
+  const chronological = [...entries].sort((a, b) => a.closedAt.localeCompare(b.closedAt));
+  const netProfits = chronological.map(getJournalEntryNetProfit);
+  const wins = netProfits.filter(net => net > 0);
+  const losses = netProfits.filter(net => net < 0);
+  const grossProfit = wins.reduce((sum, net) => sum + net, 0);
+  const grossLoss = losses.reduce((sum, net) => sum + net, 0);
+  const rMultiples = chronological.map(getJournalEntryRMultiple).filter((r): r is number => r !== null);
+
+  // Break-even trades end both streaks
+  let winStreak = 0;
+  let lossStreak = 0;
+  let longestWinStreak = 0;
+  let longestLossStreak = 0;
+  let equity = startingBalance;
+  let peak = startingBalance;
+  let maxDrawdown = 0;
+  let maxDrawdownPercent = 0;
+
+  netProfits.forEach(net => {
+    winStreak = net > 0 ? winStreak + 1 : 0;
+    lossStreak = net < 0 ? lossStreak + 1 : 0;
+    longestWinStreak = Math.max(longestWinStreak, winStreak);
+    longestLossStreak = Math.max(longestLossStreak, lossStreak);
+
+    equity += net;
+    peak = Math.max(peak, equity);
+    const drawdown = peak - equity;
+    if (drawdown > maxDrawdown) {
+      maxDrawdown = drawdown;
+      maxDrawdownPercent = peak > 0 ? (drawdown / peak) * 100 : 0;
+    }
+  });
+
+  return {
+    tradeCount: chronological.length,
+    winRate: chronological.length > 0 ? (wins.length / chronological.length) * 100 : 0,
+    averageWin: average(wins),
+    averageLoss: average(losses),
+    expectancy: average(netProfits),
+    expectancyR: rMultiples.length > 0 ? average(rMultiples) : null,
+    profitFactor: grossLoss < 0 ? grossProfit / -grossLoss : null,
+    largestWin: wins.length > 0 ? Math.max(...wins) : 0,
+    largestLoss: losses.length > 0 ? Math.min(...losses) : 0,
+    averageHoldingMs: average(chronological.map(entry => new Date(entry.closedAt).getTime() - new Date(entry.openedAt).getTime())),
+    longestWinStreak,
+    longestLossStreak,
+    maxDrawdown,
+    maxDrawdownPercent,
+  };
+};
+
+// e.g. "2d 3h", "3h 20m", "45m"
+export const formatHoldingTime = (ms: number): string => {
+  const totalMinutes = Math.max(Math.round(ms / 60000), 0);
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+};
+
+// Value as a MetricGrid card; the label is taken from PERFORMANCE_METRICS
+export const getPerformanceMetric = (metricId: PerformanceMetricId, stats: PerformanceStats, currency: string): Omit<Metric, 'label' | 'id'> => {
+  switch (metricId) {
+    case 'winRate': return { value: stats.winRate.toFixed(1), unit: '%' };
+    case 'averageWin': return { value: stats.averageWin.toFixed(2), currency };
+    case 'averageLoss': return { value: stats.averageLoss.toFixed(2), currency };
+    case 'expectancy': return { value: stats.expectancy.toFixed(2), currency };
+    case 'expectancyR': return { value: stats.expectancyR !== null ? stats.expectancyR.toFixed(2) : '-', unit: stats.expectancyR !== null ? 'R' : undefined };
+    case 'profitFactor': return { value: stats.profitFactor !== null ? stats.profitFactor.toFixed(2) : '-' };
+    case 'largestWin': return { value: stats.largestWin.toFixed(2), currency };
+    case 'largestLoss': return { value: stats.largestLoss.toFixed(2), currency };
+    case 'averageHoldingTime': return { value: stats.tradeCount > 0 ? formatHoldingTime(stats.averageHoldingMs) : '-' };
+    case 'longestWinStreak': return { value: stats.longestWinStreak };
+    case 'longestLossStreak': return { value: stats.longestLossStreak };
+    case 'maxDrawdown': return { value: stats.maxDrawdown.toFixed(2), currency };
+    case 'maxDrawdownPercent': return { value: stats.maxDrawdownPercent.toFixed(2), unit: '%' };
+  }
+};
+
+export const getPerformanceMetricLabel = (metricId: PerformanceMetricId): string =>
+  PERFORMANCE_METRICS.find(({ id }) => id === metricId)?.label ?? metricId;
@@ -3,8 +3,10 @@ export interface Metric {
   label: string;
   value: string | number;
   unit?: string;
+  currency?: string; // Renders value as money in this currency instead of value + unit
   copyable?: boolean;
   id?: string;
+  warning?: string; // Shown under the value, e.g. when the lot size was clamped
 }
 
 export interface TradeDetail {
@@ -13,6 +15,9 @@ export interface TradeDetail {
   percent: string;
   status: '✅ Completed' | '🟡 Pending';
   tradeNumber: number;
+  risk: string; // Loss if the trade is stopped out, costs included
+  outcome?: TradeOutcome; // Set once a result is logged for the trade
+  orders: string[]; // Lots per order when the trade is above the max volume, otherwise just the trade's lots
 }
 
 export interface TradeGroup {
@@ -27,28 +32,203 @@ export interface TradePlan {
   completedTrades: number;
   remainingTrades: number;
   groups: TradeGroup[];
+  riskPercent: string; // Combined risk of every trade after lot rounding
+  lotClamp?: LotClamp; // Set when each trade's share of the risk is below the minimum lot
 }
 
 export type TradeDirection = "rise" | "fall";
 
+export type TradeOutcome = "tp" | "sl" | "manual" | "breakEven";
+
+// Links a journal entry to the trade plan trade it was logged for
+export interface PlanTradeLink {
+  tradeNumber: number;
+  outcome: TradeOutcome;
+}
+
+export type BalanceChangeReason = "initial" | "tradeResult" | "journal" | "correction";
+
+// One point on the equity curve, recorded whenever the balance changes
+export interface BalanceHistoryEntry {
+  timestamp: string; // ISO timestamp
+  balance: number;
+  reason: BalanceChangeReason;
+}
+
+export type EquityCurveRange = "7d" | "30d" | "ytd" | "all";
+
+// Where the ideal compounding curve starts; defaults to the first recorded balance
+export interface GrowthPlanStart {
+  startBalance: number;
+  startDate: string; // yyyy-mm-dd, local time
+}
+
+export interface GrowthPlanProgress {
+  elapsedDays: number;
+  plannedBalance: number;
+  gap: number; // Actual minus planned; negative when behind
+  daysAhead: number | null; // Negative when behind schedule; null when the balance is not positive
+}
+
+export interface GrowthPlanPoint {
+  time: number; // Start of the day, ms since epoch
+  planned: number;
+  actual?: number; // Balance at the end of the day; missing before the first recorded balance
+}
+
+// Market orders fill at the current price; limit and stop orders wait for their entry price
+export type OrderType = "buy" | "sell" | "buyLimit" | "sellLimit" | "buyStop" | "sellStop";
+
+// "down" never lets rounding push risk above the budget; "nearest" matches broker-style rounding
+export type LotRoundingMode = "down" | "nearest";
+
+export interface RiskSettings {
+  riskPercent: number; // % of balance risked per trade
+  rewardRatio: number; // TP distance as a multiple of the SL distance (2 = 1:2 R:R)
+  roundingMode: LotRoundingMode;
+}
+
+// Which lot limit the risk-based lot size was clamped to, if any. Lots above the max volume are split instead.
+export type LotClamp = "min";
+
+// How the day's risk is split: 3 groups × 1 trade gives 3 × 0.67% targets, 1 group × 2 trades a 0.5% + 0.5% scale-in
+export interface PlanLayout {
+  groupCount: number;
+  tradesPerGroup: number;
+}
+
+// SL/TP entered as pips/points from the entry or as price levels read off the chart
+export type LevelInputMode = "distance" | "price";
+
+export type PriceLevelKind = "sl" | "tp";
+
+// "distance" is in the instrument's pips/points; "r" is a multiple of the SL distance
+export type TargetMode = "distance" | "r";
+
+export interface TakeProfitLevel {
+  distance: number;
+  mode: TargetMode;
+  closePercent: number; // % of the original position closed at this level
+}
+
+export interface TakeProfitLevelResult {
+  price: string;
+  pips: string;
+  lotsClosed: string;
+  profit: string;
+}
+
+export interface TakeProfitLadderResult {
+  levels: TakeProfitLevelResult[];
+  blendedProfit: string; // Sum of the partial closes, excluding the runner
+  runnerLots: string;
+}
+
+export interface TrailingStopSettings {
+  breakEvenTrigger: number; // Favourable move that moves the SL to entry
+  breakEvenMode: TargetMode;
+  trailDistance: number; // pips the SL trails behind price once past break-even
+  trailStep: number; // pips price must advance before the SL moves again
+}
+
+export interface TrailingStopStep {
+  triggerPrice: string;
+  slPrice: string;
+  lockedPips: string;
+  lockedProfit: string;
+}
+
 export interface TradeCalculationParams {
   entryPrice?: number;
   direction: TradeDirection;
+  orderType?: OrderType;
   customTP?: number; // pips
   customSL?: number; // pips
+  takeProfitLevels?: TakeProfitLevel[];
+  trailingStop?: TrailingStopSettings;
+  margin?: Pick<AccountSettings, 'leverage' | 'stopOutLevel'>;
   currentBalance: number;
-  instrumentType: "volatility75" | "gold";
+  instrument: InstrumentSpec;
+  risk?: RiskSettings;
 }
 
 export interface TradeCalculationResult {
-  // tp1000 and tp2000 removed as per user request to simplify UI
   tpCustom: string;
   slPrice: string;
   calculatedLots: string;
+  orders: string[]; // calculatedLots split at the broker's max volume
+  ticket: string; // One-line order summary, e.g. "BUY LIMIT XAUUSD 0.50 @ 2350.00 SL 2340.00 TP 2370.00"
+  riskAmount: string; // Effective risk of calculatedLots over the SL plus costs, after rounding
+  riskPercent: string;
+  costAmount: string; // Round-trip spread, commission and swap for calculatedLots
+  lotClamp?: LotClamp;
+  rewardRatio: string; // TP distance ÷ SL distance
+  takeProfitLadder?: TakeProfitLadderResult;
+  trailingStopPlan?: TrailingStopStep[]; // SL moves from break-even up to the custom TP
+  margin?: MarginResult;
 }
 
 export type CompoundingFrequency = "daily" | "monthly" | "yearly";
 
+export interface PositionRiskParams {
+  lots: number;
+  slPips: number;
+  tpPips: number;
+  currentBalance: number;
+  instrument: InstrumentSpec;
+  riskLimitPercent: number; // The account's configured risk per trade
+}
+
+export interface PositionRiskResult {
+  riskAmount: string;
+  riskPercent: string;
+  rewardAmount: string;
+  rewardPercent: string;
+  rewardRatio: string;
+  exceedsRiskLimit: boolean;
+}
+
+// A closed trade; money values are in the account currency
+export interface JournalEntry {
+  id: string;
+  instrument: InstrumentType;
+  direction: TradeDirection;
+  entryPrice?: number; // Missing on results logged from the trade plan until the trade is edited here
+  exitPrice?: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  lots: number;
+  openedAt: string; // ISO timestamp
+  closedAt: string; // ISO timestamp
+  profitLoss: number; // Realized P/L before fees
+  fees: number; // Commission and swap charged on the trade
+  notes: string;
+  planTrade?: PlanTradeLink; // Set when the result was logged from the trade plan
+}
+
+// Journal statistics; money values are net of fees in the account currency
+export interface PerformanceStats {
+  tradeCount: number;
+  winRate: number; // % of trades closed with a net profit
+  averageWin: number;
+  averageLoss: number; // Negative
+  expectancy: number; // Average net P/L per trade
+  expectancyR: number | null; // Average R multiple; null when no trade has a stop loss
+  profitFactor: number | null; // Gross profit ÷ gross loss; null when there are no losses
+  largestWin: number;
+  largestLoss: number; // Negative
+  averageHoldingMs: number;
+  longestWinStreak: number;
+  longestLossStreak: number;
+  maxDrawdown: number;
+  maxDrawdownPercent: number; // Of the equity peak the drawdown started from
+}
+
+export type PerformanceMetricId =
+  | "winRate" | "averageWin" | "averageLoss" | "expectancy" | "expectancyR" | "profitFactor"
+  | "largestWin" | "largestLoss" | "averageHoldingTime" | "longestWinStreak" | "longestLossStreak"
+  | "maxDrawdown" | "maxDrawdownPercent";
+
 export interface CompoundingResult {
   projectedBalance: string;
   totalGrowth: string;
@@ -59,10 +239,80 @@ export interface WithdrawalResult {
   withdrawableAmount: string;
 }
 
-export type InstrumentType = "volatility75" | "gold";
+// Key into the instrument registry (see src/lib/instruments.ts)
+export type InstrumentType = string;
+
+export type InstrumentCategory = "synthetic" | "metal" | "forex" | "index" | "crypto" | "custom";
+
+export type DistanceUnit = "pips" | "points";
+
+export interface InstrumentSpec {
+  id: InstrumentType;
+  name: string; // Full display name, e.g. "Gold (XAU/USD)"
+  shortName: string; // Used in toasts and selectors, e.g. "Gold"
+  symbol: string; // Broker symbol, e.g. "XAUUSD"
+  category: InstrumentCategory;
+  quoteCurrency: string; // Currency valuePerPipPerLot is expressed in
+  minLot: number;
+  maxLot: number;
+  lotStep: number; // Broker volume step
+  lotPrecision: number;
+  distanceUnit?: DistanceUnit; // Unit SL/TP distances are entered in; defaults to pips
+  pipToPriceFactor: number; // Price move for 1 pip (or point)
+  valuePerPipPerLot?: number; // Profit/loss per pip for 1 lot, in the quote currency
+  contractSize?: number; // Units per lot; used when valuePerPipPerLot is not set (CFDs)
+  defaultConversionRate?: number; // Indicative rate of the quote conversion pair for non-USD quotes
+  strategySLPips: number; // SL pips for trade plan logic and calculator defaults
+  strategyTPPips: number; // TP pips for trade plan logic and calculator defaults
+  pricePrecision: number; // Price decimals used when the entry price is a whole number
+  initialBalanceDefault: number;
+  tradingCosts?: TradingCosts; // Set on the priced spec from the dashboard's cost settings
+}
+
+// Per-instrument trading costs; money values are per lot in the account currency
+export interface TradingCosts {
+  spreadPips: number;
+  commissionPerLot: number; // Per side, charged on open and on close
+  swapPerNight: number; // Positive is a charge, negative a credit
+  nights: number; // Nights the position is expected to be held
+}
+
+export interface AccountSettings {
+  currency: string; // ISO code, or "USC" for cent accounts
+  usdRates: Record<string, number>; // Units of each currency per 1 USD
+  leverage: number; // 500 means 1:500
+  stopOutLevel: number; // Margin level % at which the broker closes positions
+}
+
+export interface MarginResult {
+  requiredMargin: string;
+  freeMargin: string;
+  marginLevel: string; // "-" when no margin is required
+  stopOutPrice: string; // "-" when the balance is already below the stop-out level
+  stopOutBeforeSL: boolean;
+}
+
+// Saved trading setup for one instrument; SL/TP are in the instrument's distance unit
+export interface StrategyProfile {
+  id: string;
+  name: string;
+  slPips: number;
+  tpPips: number;
+  riskPercent: number;
+  maxTradesPerDay: number;
+}
+
+// Contract spec fields a broker profile may override
+export type InstrumentSpecOverrides = Partial<Pick<InstrumentSpec,
+  'contractSize' | 'pipToPriceFactor' | 'valuePerPipPerLot' | 'minLot' | 'maxLot' | 'lotStep' | 'pricePrecision'
+>>;
+
+export interface BrokerProfile {
+  id: string;
+  name: string;
+  overrides: Record<InstrumentType, InstrumentSpecOverrides>;
+}
 
 export interface BaseDashboardProps {
-  instrumentType: InstrumentType;
-  instrumentName: string;
-  initialBalanceOrDefault: number;
+  instrument: InstrumentSpec;
 }
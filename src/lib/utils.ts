@@ -1,7 +1,10 @@
 
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
-import type { TradePlan, TradeGroup, TradeDetail, TradeCalculationParams, TradeCalculationResult, CompoundingFrequency, CompoundingResult, WithdrawalResult, InstrumentType } from './types';
+import { getDistanceUnit, getTradingCostPerLot, getValuePerPipPerLot } from './instruments';
+import { formatMoney } from './currency';
+import { getOrderTypeTicketLabel } from './orders';
+import type { TradePlan, TradeGroup, TradeDetail, TradeCalculationParams, TradeCalculationResult, CompoundingFrequency, CompoundingResult, WithdrawalResult, InstrumentSpec, LotRoundingMode, RiskSettings, PlanLayout, TakeProfitLevel, TakeProfitLadderResult, TargetMode, TradeDirection, TrailingStopSettings, TrailingStopStep, PriceLevelKind, LevelInputMode, PositionRiskParams, PositionRiskResult, TradingCosts, MarginResult, LotClamp } from './types';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -34,173 +37,383 @@ export const setLocalStorageItem = <T>(key: string, value: T): void => {
   }
 };
 
-// Gold Specific Constants
-const MIN_LOT_SIZE_GOLD = 0.01;
-const MAX_LOT_SIZE_GOLD = 5.00; 
-const GOLD_LOT_PRECISION = 2;
-const GOLD_PIP_TO_PRICE_FACTOR = 0.10; // 1 pip = $0.10 price move for Gold
-const GOLD_VALUE_PER_PIP_PER_STANDARD_LOT = 10; // $10 profit/loss per pip for 1 standard lot of Gold
-const GOLD_STRATEGY_SL_PIPS_FOR_PLAN = 100; // SL pips for trade plan logic
-const GOLD_STRATEGY_TP_PIPS_FOR_PLAN = 200; // TP pips for trade plan logic
+// Snaps lots to the instrument's volume step. The epsilon keeps exact multiples from flooring a step lower.
+export const snapLotsToStep = (lots: number, instrument: InstrumentSpec, roundingMode: LotRoundingMode = 'down'): number => {
+  const steps = roundingMode === 'down'
+    ? Math.floor(lots / instrument.lotStep + 1e-9)
+    : Math.round(lots / instrument.lotStep);
+  return parseFloat((steps * instrument.lotStep).toFixed(instrument.lotPrecision));
+};
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = {
+  riskPercent: 1,
+  rewardRatio: 2,
+  roundingMode: 'down',
+};
 
+// Range of the risk slider; strategy profiles are held to it too
+export const RISK_PERCENT_RANGE = { min: 0.1, max: 5, step: 0.1 };
 
-// Volatility 75 Specific Constants
-const MIN_LOT_SIZE_V75 = 0.001;
-const MAX_LOT_SIZE_V75 = 5.00;
-const V75_LOT_PRECISION = 3;
-const V75_STRATEGY_SL_PIPS_FOR_PLAN = 1000;
-const V75_STRATEGY_TP_PIPS_FOR_PLAN = 2000;
-const V75_LOT_CALC_BASE_PIPS_FOR_1_PERCENT_RISK = 500; // Lot size based on 500 pips = 1% risk
-const V75_VALUE_PER_PIP_PER_FULL_LOT = 1; // V75: 1 pip = $1 profit/loss per lot
+export const DEFAULT_TRADING_COSTS: TradingCosts = {
+  spreadPips: 0,
+  commissionPerLot: 0,
+  swapPerNight: 0,
+  nights: 0,
+};
 
+export const DEFAULT_PLAN_LAYOUT: PlanLayout = {
+  groupCount: 1,
+  tradesPerGroup: 1,
+};
 
-export const calculateTradeGroupsLogic = (currentBalance: number, instrumentType: InstrumentType): Omit<TradePlan, 'completedTrades' | 'remainingTrades'> => {
+// Defaults keep each instrument's strategy R:R
+export const getDefaultRiskSettings = (instrument: InstrumentSpec): RiskSettings => ({
+  ...DEFAULT_RISK_SETTINGS,
+  rewardRatio: instrument.strategyTPPips / instrument.strategySLPips,
+});
+
+// Loss of one lot stopped out after the given pips, trading costs included
+export const getLossPerLot = (pips: number, instrument: InstrumentSpec): number =>
+  pips * getValuePerPipPerLot(instrument) + getTradingCostPerLot(instrument);
+
+// Profit of one lot closed after the given pips, net of trading costs
+export const getProfitPerLot = (pips: number, instrument: InstrumentSpec): number =>
+  pips * getValuePerPipPerLot(instrument) - getTradingCostPerLot(instrument);
+
+// Lots for risking the configured % of the balance, snapped to the volume step but not yet clamped.
+// The risk budget covers the SL plus spread, commission and swap; without a custom SL the strategy SL is used.
+const getSteppedRiskLots = (currentBalance: number, instrument: InstrumentSpec, risk: RiskSettings, slPips?: number): number => {
+  const riskPips = slPips !== undefined && slPips > 0 ? slPips : instrument.strategySLPips;
+  const amountToRisk = currentBalance * (risk.riskPercent / 100);
+  const baseLots = amountToRisk / getLossPerLot(riskPips, instrument);
+  return snapLotsToStep(baseLots, instrument, risk.roundingMode);
+};
+
+// Recommended lot for risking the configured % of the balance, raised to the minimum lot.
+// Above the max volume this is the total across orders; see splitLotsIntoOrders.
+export const calculateRecommendedLots = (currentBalance: number, instrument: InstrumentSpec, risk: RiskSettings = DEFAULT_RISK_SETTINGS, slPips?: number): number => {
+  const steppedLots = getSteppedRiskLots(currentBalance, instrument, risk, slPips);
+  return parseFloat(Math.max(instrument.minLot, steppedLots).toFixed(instrument.lotPrecision));
+};
+
+// Splits a position above the max volume into max-size orders plus the rest, e.g. 12.4 → [5, 5, 2.4].
+// A rest below the minimum lot borrows from the previous order so every order can be placed.
+export const splitLotsIntoOrders = (lots: number, instrument: InstrumentSpec): number[] => {
+  const toLots = (value: number) => parseFloat(value.toFixed(instrument.lotPrecision));
+  if (lots <= instrument.maxLot) {
+    return [lots];
+  }
+  const fullOrders = Math.floor(lots / instrument.maxLot + 1e-9);
+  const orders: number[] = Array(fullOrders).fill(instrument.maxLot);
+  let rest = toLots(lots - fullOrders * instrument.maxLot);
+  if (rest > 0) {
+    if (rest < instrument.minLot) {
+      orders[orders.length - 1] = toLots(instrument.maxLot - (instrument.minLot - rest));
+      rest = instrument.minLot;
+    }
+    orders.push(rest);
+  }
+  return orders;
+};
+
+
+// Whether calculateRecommendedLots had to clamp, making the real risk differ from the configured %
+export const getLotClamp = (currentBalance: number, instrument: InstrumentSpec, risk: RiskSettings = DEFAULT_RISK_SETTINGS, slPips?: number): LotClamp | undefined => {
   if (currentBalance <= 0) {
-    return { dailyTarget: 0, totalTradesRequired: 0, groups: [] };
+    return undefined;
   }
+  return getSteppedRiskLots(currentBalance, instrument, risk, slPips) < instrument.minLot ? 'min' : undefined;
+};
 
-  if (instrumentType === 'volatility75') {
-    const baseLots = (currentBalance * 0.01) / V75_LOT_CALC_BASE_PIPS_FOR_1_PERCENT_RISK;
-    const lotsForTrade = parseFloat(
-      Math.max(MIN_LOT_SIZE_V75, Math.min(baseLots, MAX_LOT_SIZE_V75)).toFixed(V75_LOT_PRECISION)
-    );
 
-    const profitForTrade = lotsForTrade * V75_STRATEGY_TP_PIPS_FOR_PLAN * V75_VALUE_PER_PIP_PER_FULL_LOT;
-    const percentForTrade = currentBalance > 0 ? (profitForTrade / currentBalance) * 100 : 0;
+export const getLotClampWarning = (lotClamp: LotClamp | undefined, effectiveRiskPercent: string, risk: RiskSettings, instrument: InstrumentSpec): string | undefined => {
+  return lotClamp === 'min'
+    ? `The minimum lot of ${instrument.minLot.toFixed(instrument.lotPrecision)} risks ${effectiveRiskPercent}%, above your ${risk.riskPercent.toFixed(1)}% setting.`
+    : undefined;
+};
 
-    const tradeDetail: TradeDetail = {
-      lots: lotsForTrade.toFixed(V75_LOT_PRECISION),
-      profit: profitForTrade.toFixed(2),
-      percent: percentForTrade.toFixed(2),
-      status: '🟡 Pending',
-      tradeNumber: 0, 
-    };
+// For risk above the setting without a lot clamp, e.g. when "nearest" rounding rounds the lot up.
+// Compared at display precision so a trade sized exactly at the limit is not flagged.
+export const getOverRiskWarning = (effectiveRiskPercent: string, risk: RiskSettings): string | undefined => {
+  return parseFloat(effectiveRiskPercent) > risk.riskPercent
+    ? `This trade risks ${effectiveRiskPercent}%, above your ${risk.riskPercent.toFixed(1)}% setting.`
+    : undefined;
+};
 
-    const group: TradeGroup = {
-      groupNumber: 1,
-      trades: [tradeDetail],
-      totalLots: lotsForTrade.toFixed(V75_LOT_PRECISION),
-    };
-    
-    return {
-      dailyTarget: profitForTrade, // Actual gain from the V75 strategy trade
-      totalTradesRequired: 1,
-      groups: [group],
-    };
 
-  } else { // Gold logic: Simplified to one trade risking 1% for 2% gain
-    const amountToRisk = currentBalance * 0.01;
-    const baseLotsGold = amountToRisk / (GOLD_STRATEGY_SL_PIPS_FOR_PLAN * GOLD_VALUE_PER_PIP_PER_STANDARD_LOT);
-    const lotsForTrade = parseFloat(
-      Math.max(MIN_LOT_SIZE_GOLD, Math.min(baseLotsGold, MAX_LOT_SIZE_GOLD)).toFixed(GOLD_LOT_PRECISION)
-    );
-
-    const profitForTrade = lotsForTrade * GOLD_STRATEGY_TP_PIPS_FOR_PLAN * GOLD_VALUE_PER_PIP_PER_STANDARD_LOT;
-    const percentForTrade = currentBalance > 0 ? (profitForTrade / currentBalance) * 100 : 0;
-    
-    const tradeDetail: TradeDetail = {
-      lots: lotsForTrade.toFixed(GOLD_LOT_PRECISION),
+export const calculateTradeGroupsLogic = (currentBalance: number, instrument: InstrumentSpec, risk: RiskSettings = DEFAULT_RISK_SETTINGS, layout: PlanLayout = DEFAULT_PLAN_LAYOUT): Omit<TradePlan, 'completedTrades' | 'remainingTrades'> => {
+  if (currentBalance <= 0) {
+    return { dailyTarget: 0, totalTradesRequired: 0, groups: [], riskPercent: '0.00' };
+  }
+
+  // The configured risk % is shared equally by every trade, each aiming for SL × R:R
+  const totalTrades = layout.groupCount * layout.tradesPerGroup;
+  const tradeRisk: RiskSettings = { ...risk, riskPercent: risk.riskPercent / totalTrades };
+  const lotsForTrade = calculateRecommendedLots(currentBalance, instrument, tradeRisk);
+  const profitForTrade = lotsForTrade * getProfitPerLot(instrument.strategySLPips * risk.rewardRatio, instrument);
+  const percentForTrade = (profitForTrade / currentBalance) * 100;
+  const riskForTrade = lotsForTrade * getLossPerLot(instrument.strategySLPips, instrument);
+  const ordersForTrade = splitLotsIntoOrders(lotsForTrade, instrument).map(orderLots => orderLots.toFixed(instrument.lotPrecision));
+
+  const groups: TradeGroup[] = Array.from({ length: layout.groupCount }, (_, groupIndex) => {
+    const trades: TradeDetail[] = Array.from({ length: layout.tradesPerGroup }, (_, tradeIndex) => ({
+      lots: lotsForTrade.toFixed(instrument.lotPrecision),
       profit: profitForTrade.toFixed(2),
       percent: percentForTrade.toFixed(2),
       status: '🟡 Pending',
-      tradeNumber: 0,
+      tradeNumber: groupIndex * layout.tradesPerGroup + tradeIndex,
+      risk: riskForTrade.toFixed(2),
+      orders: ordersForTrade,
+    }));
+    return {
+      groupNumber: groupIndex + 1,
+      trades,
+      totalLots: (lotsForTrade * layout.tradesPerGroup).toFixed(instrument.lotPrecision),
     };
+  });
 
-    const group: TradeGroup = {
-      groupNumber: 1,
-      trades: [tradeDetail],
-      totalLots: lotsForTrade.toFixed(GOLD_LOT_PRECISION),
-    };
+  return {
+    dailyTarget: profitForTrade * totalTrades, // Net gain once every trade hits TP
+    totalTradesRequired: totalTrades,
+    groups,
+    riskPercent: ((riskForTrade * totalTrades / currentBalance) * 100).toFixed(2),
+    lotClamp: getLotClamp(currentBalance, instrument, tradeRisk),
+  };
+};
+
+
+// Distance in pips/points for a target given directly or as a multiple of the SL
+export const getTargetPips = (distance: number, mode: TargetMode, slPips: number): number =>
+  mode === 'r' ? distance * slPips : distance;
+
+// Price reached after moving the given pips/points in the trade's favour (negative pips move against it)
+export const getPriceAtDistance = (entryPrice: number, pips: number, direction: TradeDirection, instrument: InstrumentSpec): number => {
+  const priceMove = pips * instrument.pipToPriceFactor;
+  return direction === 'rise' ? entryPrice + priceMove : entryPrice - priceMove;
+};
+
+// Distance between two prices in the instrument's pips/points
+export const getPipsBetweenPrices = (fromPrice: number, toPrice: number, instrument: InstrumentSpec): number =>
+  parseFloat((Math.abs(toPrice - fromPrice) / instrument.pipToPriceFactor).toFixed(6));
 
+// A TP must sit in the trade's favour and a SL against it
+export const isPriceLevelOnCorrectSide = (entryPrice: number, levelPrice: number, direction: TradeDirection, kind: PriceLevelKind): boolean => {
+  const favourableMove = direction === 'rise' ? levelPrice - entryPrice : entryPrice - levelPrice;
+  return kind === 'tp' ? favourableMove > 0 : favourableMove < 0;
+};
+
+const LEVEL_LABELS: Record<PriceLevelKind, string> = { sl: 'Custom SL', tp: 'Custom TP' };
+
+// Reads an SL/TP input as pips/points or as a price level, which must sit on the right side of the entry
+export const parseLevelPips = (
+  value: string,
+  mode: LevelInputMode,
+  kind: PriceLevelKind,
+  entryPrice: number,
+  direction: TradeDirection,
+  instrument: InstrumentSpec
+): { pips: number } | { error: string } => {
+  const level = parseFloat(value);
+  const label = LEVEL_LABELS[kind];
+  if (mode === 'distance') {
+    return isNaN(level) || level <= 0
+      ? { error: `Please enter valid ${getDistanceUnit(instrument)} for ${label} (must be > 0).` }
+      : { pips: level };
+  }
+  if (isNaN(level) || level <= 0) {
+    return { error: `Please enter a valid ${label} price.` };
+  }
+  if (!isPriceLevelOnCorrectSide(entryPrice, level, direction, kind)) {
+    const side = (direction === 'rise') === (kind === 'tp') ? 'above' : 'below';
+    return { error: `For a ${direction === 'rise' ? 'buy' : 'sell'} the ${label} price must be ${side} the entry price.` };
+  }
+  return { pips: getPipsBetweenPrices(entryPrice, level, instrument) };
+};
+
+interface TakeProfitLadderParams {
+  entryPrice: number;
+  direction: TradeDirection;
+  lots: number;
+  slPips: number;
+  pricePrecision: number;
+  instrument: InstrumentSpec;
+}
+
+// Partial closes are snapped down to the volume step so the ladder never closes more than is open
+export const calculateTakeProfitLadder = (levels: TakeProfitLevel[], params: TakeProfitLadderParams): TakeProfitLadderResult => {
+  const { entryPrice, direction, lots, slPips, pricePrecision, instrument } = params;
+  let remainingLots = lots;
+  let blendedProfit = 0;
+
+  const levelResults = levels.map(level => {
+    const pips = getTargetPips(level.distance, level.mode, slPips);
+    const lotsClosed = Math.min(snapLotsToStep(lots * (level.closePercent / 100), instrument, 'down'), remainingLots);
+    const profit = lotsClosed * getProfitPerLot(pips, instrument);
+    remainingLots = parseFloat((remainingLots - lotsClosed).toFixed(instrument.lotPrecision));
+    blendedProfit += profit;
     return {
-        dailyTarget: profitForTrade, // Actual 2% gain from the Gold strategy trade
-        totalTradesRequired: 1,
-        groups: [group],
+      price: getPriceAtDistance(entryPrice, pips, direction, instrument).toFixed(pricePrecision),
+      pips: parseFloat(pips.toFixed(2)).toString(),
+      lotsClosed: lotsClosed.toFixed(instrument.lotPrecision),
+      profit: profit.toFixed(2),
     };
+  });
+
+  return {
+    levels: levelResults,
+    blendedProfit: blendedProfit.toFixed(2),
+    runnerLots: remainingLots.toFixed(instrument.lotPrecision),
+  };
+};
+
+
+const MAX_TRAILING_STOP_STEPS = 50;
+
+interface TrailingStopPlanParams extends TakeProfitLadderParams {
+  tpPips: number;
+}
+
+// SL sequence for a trade that reaches its TP: entry at the break-even trigger, then price − trail every step
+export const calculateTrailingStopPlan = (settings: TrailingStopSettings, params: TrailingStopPlanParams): TrailingStopStep[] => {
+  const { entryPrice, direction, lots, slPips, tpPips, pricePrecision, instrument } = params;
+  const triggerPips = getTargetPips(settings.breakEvenTrigger, settings.breakEvenMode, slPips);
+
+  const toStep = (movePips: number, lockedPips: number): TrailingStopStep => ({
+    triggerPrice: getPriceAtDistance(entryPrice, movePips, direction, instrument).toFixed(pricePrecision),
+    slPrice: getPriceAtDistance(entryPrice, lockedPips, direction, instrument).toFixed(pricePrecision),
+    lockedPips: parseFloat(lockedPips.toFixed(2)).toString(),
+    lockedProfit: (lots * getProfitPerLot(lockedPips, instrument)).toFixed(2), // Costs can leave break-even slightly negative
+  });
+
+  if (triggerPips > tpPips) {
+    return [];
+  }
+
+  const steps = [toStep(triggerPips, 0)];
+  let lastLockedPips = 0;
+  for (let movePips = triggerPips + settings.trailStep; movePips <= tpPips + 1e-9 && steps.length < MAX_TRAILING_STOP_STEPS; movePips += settings.trailStep) {
+    const lockedPips = movePips - settings.trailDistance;
+    if (lockedPips > lastLockedPips) {
+      steps.push(toStep(movePips, lockedPips));
+      lastLockedPips = lockedPips;
+    }
   }
+  return steps;
+};
+
+
+interface MarginParams {
+  entryPrice: number;
+  direction: TradeDirection;
+  lots: number;
+  slPips: number;
+  currentBalance: number;
+  pricePrecision: number;
+  instrument: InstrumentSpec;
+  leverage: number;
+  stopOutLevel: number;
+}
+
+// Notional value in the account currency, from the priced pip value: units per lot = value per pip ÷ pip size
+export const getPositionNotional = (lots: number, entryPrice: number, instrument: InstrumentSpec): number =>
+  lots * entryPrice * (getValuePerPipPerLot(instrument) / instrument.pipToPriceFactor);
+
+// Margin for opening at the entry price; the stop-out price assumes the margin stays fixed as price moves
+export const calculateMarginLogic = (params: MarginParams): MarginResult => {
+  const { entryPrice, direction, lots, slPips, currentBalance, pricePrecision, instrument, leverage, stopOutLevel } = params;
+  const requiredMargin = getPositionNotional(lots, entryPrice, instrument) / leverage;
+  const freeMargin = currentBalance - requiredMargin;
+
+  // Floating loss the account can take before equity falls to the stop-out level
+  const lossToStopOut = currentBalance - requiredMargin * (stopOutLevel / 100);
+  const pipsToStopOut = lossToStopOut / (lots * getValuePerPipPerLot(instrument));
+
+  return {
+    requiredMargin: requiredMargin.toFixed(2),
+    freeMargin: freeMargin.toFixed(2),
+    marginLevel: requiredMargin > 0 ? ((currentBalance / requiredMargin) * 100).toFixed(2) : "-",
+    stopOutPrice: lossToStopOut > 0 ? getPriceAtDistance(entryPrice, -pipsToStopOut, direction, instrument).toFixed(pricePrecision) : "-",
+    stopOutBeforeSL: pipsToStopOut < slPips,
+  };
 };
 
 
 export const calculateTradePointsLogic = (params: TradeCalculationParams): TradeCalculationResult => {
-  const { entryPrice = 0, direction, customTP, customSL, currentBalance, instrumentType } = params;
-
-  let calculatedLotsString: string;
-  let lotPrecision: number;
-  let pipToPriceFactor: number;
-  let defaultSLPips: number;
-  let defaultTPPips: number;
-  let minLot: number;
-  let maxLot: number;
-  let valuePerPipPerLotForCalc: number; // Value per pip for 1 standard lot for the instrument
-
-
-  if (instrumentType === 'gold') {
-    lotPrecision = GOLD_LOT_PRECISION;
-    pipToPriceFactor = GOLD_PIP_TO_PRICE_FACTOR;
-    defaultSLPips = GOLD_STRATEGY_SL_PIPS_FOR_PLAN;
-    defaultTPPips = GOLD_STRATEGY_TP_PIPS_FOR_PLAN;
-    minLot = MIN_LOT_SIZE_GOLD;
-    maxLot = MAX_LOT_SIZE_GOLD;
-    valuePerPipPerLotForCalc = GOLD_VALUE_PER_PIP_PER_STANDARD_LOT;
-
-    const slPipsForLot = customSL !== undefined && customSL > 0 ? customSL : defaultSLPips;
-    const amountToRisk = currentBalance * 0.01; // Risk 1% of balance
-    const baseLots = amountToRisk / (slPipsForLot * valuePerPipPerLotForCalc);
-    calculatedLotsString = parseFloat(
-      Math.max(minLot, Math.min(baseLots, maxLot)).toFixed(lotPrecision)
-    ).toFixed(lotPrecision);
-
-  } else { // Volatility75
-    lotPrecision = V75_LOT_PRECISION;
-    pipToPriceFactor = 1; // For V75, 1 pip is 1 price unit
-    defaultSLPips = V75_STRATEGY_SL_PIPS_FOR_PLAN;
-    defaultTPPips = V75_STRATEGY_TP_PIPS_FOR_PLAN;
-    minLot = MIN_LOT_SIZE_V75;
-    maxLot = MAX_LOT_SIZE_V75;
-    valuePerPipPerLotForCalc = V75_VALUE_PER_PIP_PER_FULL_LOT;
-    
-    // V75 lot calculation is based on 500 pips = 1% risk for its "recommended lot"
-    const baseLots = (currentBalance * 0.01) / V75_LOT_CALC_BASE_PIPS_FOR_1_PERCENT_RISK;
-     calculatedLotsString = parseFloat(
-      Math.max(minLot, Math.min(baseLots, maxLot)).toFixed(lotPrecision)
-    ).toFixed(lotPrecision);
-  }
+  const { entryPrice = 0, direction, orderType = direction === 'rise' ? 'buy' : 'sell', customTP, customSL, takeProfitLevels = [], trailingStop, margin, currentBalance, instrument, risk = DEFAULT_RISK_SETTINGS } = params;
 
-  const actualCustomTP = customTP !== undefined && customTP > 0 ? customTP : defaultTPPips;
-  const actualCustomSL = customSL !== undefined && customSL > 0 ? customSL : defaultSLPips;
+  const calculatedLots = calculateRecommendedLots(currentBalance, instrument, risk, customSL);
+  const calculatedLotsString = calculatedLots.toFixed(instrument.lotPrecision);
 
-  const tpCustomPriceMove = actualCustomTP * pipToPriceFactor;
-  const slPriceMove = actualCustomSL * pipToPriceFactor;
+  const actualCustomSL = customSL !== undefined && customSL > 0 ? customSL : instrument.strategySLPips;
+  const actualCustomTP = customTP !== undefined && customTP > 0 ? customTP : actualCustomSL * risk.rewardRatio;
 
-  const tpCustomVal = direction === 'rise' ? entryPrice + tpCustomPriceMove : entryPrice - tpCustomPriceMove;
-  const slVal = direction === 'rise' ? entryPrice - slPriceMove : entryPrice + slPriceMove;
+  const riskAmount = calculatedLots * getLossPerLot(actualCustomSL, instrument);
+  const costAmount = calculatedLots * getTradingCostPerLot(instrument);
+  const hasPosition = currentBalance > 0 && entryPrice > 0;
 
-  let pricePrecision = instrumentType === 'gold' ? 2 : (entryPrice.toString().split('.')[1]?.length || 3);
-   if (entryPrice === 0) { // If entry price is 0, use default precision
-    pricePrecision = instrumentType === 'gold' ? 2 : 3;
-  } else if (entryPrice.toString().includes('.')) {
-    pricePrecision = entryPrice.toString().split('.')[1]?.length || (instrumentType === 'gold' ? 2 : 3);
-  } else { // Whole number entry price
-    pricePrecision = instrumentType === 'gold' ? 2 : 0; // Gold usually has decimals, V75 might not
-    if (instrumentType === 'volatility75' && pricePrecision === 0) pricePrecision = 1; // V75 point often needs 1 decimal
-  }
+  const tpCustomVal = getPriceAtDistance(entryPrice, actualCustomTP, direction, instrument);
+  const slVal = getPriceAtDistance(entryPrice, -actualCustomSL, direction, instrument);
+
+  // Follow the entry price's decimals, but never show fewer than the instrument quotes (1.10000 parses to 1.1)
+  const entryDecimals = entryPrice.toString().split('.')[1]?.length ?? 0;
+  const pricePrecision = Math.max(entryDecimals, instrument.pricePrecision);
 
+  const ticket = `${getOrderTypeTicketLabel(orderType)} ${instrument.symbol} ${calculatedLotsString} @ ${entryPrice.toFixed(pricePrecision)} SL ${slVal.toFixed(pricePrecision)} TP ${tpCustomVal.toFixed(pricePrecision)}`;
 
   return {
       tpCustom: entryPrice > 0 ? tpCustomVal.toFixed(pricePrecision) : "-",
       slPrice: entryPrice > 0 ? slVal.toFixed(pricePrecision) : "-",
-      calculatedLots: currentBalance > 0 && entryPrice > 0 ? calculatedLotsString : (0).toFixed(lotPrecision),
+      calculatedLots: hasPosition ? calculatedLotsString : (0).toFixed(instrument.lotPrecision),
+      ticket: hasPosition ? ticket : "-",
+      orders: hasPosition ? splitLotsIntoOrders(calculatedLots, instrument).map(orderLots => orderLots.toFixed(instrument.lotPrecision)) : [],
+      riskAmount: hasPosition ? riskAmount.toFixed(2) : "-",
+      riskPercent: hasPosition ? ((riskAmount / currentBalance) * 100).toFixed(2) : "-",
+      costAmount: hasPosition ? costAmount.toFixed(2) : "-",
+      lotClamp: hasPosition ? getLotClamp(currentBalance, instrument, risk, customSL) : undefined,
+      rewardRatio: (actualCustomTP / actualCustomSL).toFixed(2),
+      takeProfitLadder: hasPosition && takeProfitLevels.length > 0
+        ? calculateTakeProfitLadder(takeProfitLevels, { entryPrice, direction, lots: calculatedLots, slPips: actualCustomSL, pricePrecision, instrument })
+        : undefined,
+      trailingStopPlan: hasPosition && trailingStop
+        ? calculateTrailingStopPlan(trailingStop, { entryPrice, direction, lots: calculatedLots, slPips: actualCustomSL, tpPips: actualCustomTP, pricePrecision, instrument })
+        : undefined,
+      margin: hasPosition && margin
+        ? calculateMarginLogic({ entryPrice, direction, lots: calculatedLots, slPips: actualCustomSL, currentBalance, pricePrecision, instrument, ...margin })
+        : undefined,
+  };
+};
+
+
+// Risk and reward of a position already sized, the reverse of calculateTradePointsLogic
+export const calculatePositionRiskLogic = (params: PositionRiskParams): PositionRiskResult => {
+  const { lots, slPips, tpPips, currentBalance, instrument, riskLimitPercent } = params;
+  const riskAmount = lots * getLossPerLot(slPips, instrument);
+  const rewardAmount = lots * getProfitPerLot(tpPips, instrument);
+  const riskPercent = currentBalance > 0 ? (riskAmount / currentBalance) * 100 : 0;
+  const rewardPercent = currentBalance > 0 ? (rewardAmount / currentBalance) * 100 : 0;
+
+  return {
+    riskAmount: riskAmount.toFixed(2),
+    riskPercent: currentBalance > 0 ? riskPercent.toFixed(2) : "-",
+    rewardAmount: rewardAmount.toFixed(2),
+    rewardPercent: currentBalance > 0 ? rewardPercent.toFixed(2) : "-",
+    rewardRatio: (tpPips / slPips).toFixed(2),
+    // Compare at display precision so a position sized exactly at the limit is not flagged
+    exceedsRiskLimit: currentBalance > 0 && parseFloat(riskPercent.toFixed(2)) > riskLimitPercent,
   };
 };
 
 
-export const calculateCompoundingLogic = (initialBalance: number, frequency: CompoundingFrequency, periods: number): CompoundingResult => {
+// The plan's 2% per day compounding; also drives the plan-vs-actual chart
+export const DAILY_GROWTH_RATE = 1.02;
+
+export const calculateCompoundingLogic = (initialBalance: number, frequency: CompoundingFrequency, periods: number, currency: string = 'USD'): CompoundingResult => {
   if (isNaN(initialBalance) || isNaN(periods) || initialBalance <= 0 || periods <= 0) {
       return { projectedBalance: "-", totalGrowth: "-" };
   }
 
   let days;
-  const dailyGrowthRate = 1.02; 
+  const dailyGrowthRate = DAILY_GROWTH_RATE;
   switch (frequency) {
       case 'daily': days = periods; break;
       case 'monthly': days = periods * 20; break; 
@@ -212,18 +425,18 @@ export const calculateCompoundingLogic = (initialBalance: number, frequency: Com
   const totalGrowth = projectedBalance - initialBalance;
 
   return {
-      projectedBalance: `$${projectedBalance.toFixed(2)}`,
-      totalGrowth: `$${totalGrowth.toFixed(2)}`,
+      projectedBalance: formatMoney(projectedBalance, currency),
+      totalGrowth: formatMoney(totalGrowth, currency),
   };
 };
 
-export const calculateWithdrawalLogic = (manualBalance: number): WithdrawalResult => {
+export const calculateWithdrawalLogic = (manualBalance: number, currency: string = 'USD'): WithdrawalResult => {
   if (isNaN(manualBalance) || manualBalance <= 0) {
       return { totalGrowth: "-", withdrawableAmount: "-" };
   }
 
   let simulatedBalanceAtStartOfPeriod = manualBalance;
-  const dailyGrowthRate = 1.02; 
+  const dailyGrowthRate = DAILY_GROWTH_RATE;
   const daysInPeriod = 30; // Use 30 actual days for reversing growth
 
   for (let i = 0; i < daysInPeriod; i++) {
@@ -234,8 +447,8 @@ export const calculateWithdrawalLogic = (manualBalance: number): WithdrawalResul
   const withdrawableAmount = totalGrowthThisPeriod * 0.05;
 
   return {
-      totalGrowth: `$${totalGrowthThisPeriod.toFixed(2)}`,
-      withdrawableAmount: `$${withdrawableAmount.toFixed(2)}`,
+      totalGrowth: formatMoney(totalGrowthThisPeriod, currency),
+      withdrawableAmount: formatMoney(withdrawableAmount, currency),
   };
 };
 